@@ -10,13 +10,17 @@
  */
 
 import type { PluginExport, PluginToolDefinition } from '../../src/types';
+import { SEARCH_RESULT_SCHEMA } from '../../src/search-result';
 import manifest from './manifest.json';
 import { createSearchBingTool } from './tools/search-bing';
 
+export { MESSAGES } from './tools/search-bing';
+
 const tools: PluginToolDefinition[] = [
 	{
 		id: 'search_bing',
 		createTool: (ctx) => createSearchBingTool(ctx),
+		outputSchema: SEARCH_RESULT_SCHEMA,
 		isAvailable: (env) =>
 			!!(env.AZURE_FOUNDRY_BING_ENDPOINT && env.AZURE_FOUNDRY_BING_API_KEY)
 	}
@@ -1,4 +1,4 @@
-import type { Source } from '../../../src/types';
+import type { SearchResult } from '../../../src/search-result';
 
 export interface SearchBingParams {
 	q: string;
@@ -45,8 +45,4 @@ export interface AgentStructuredResponse {
 }
 
 /** Structured result returned to the application */
-export interface SearchBingResult {
-	message: string;
-	sources?: Source[];
-	content?: string;
-}
+export type SearchBingResult = SearchResult;
@@ -56,16 +56,16 @@ function convertToSources(agentSources: AgentSource[]): Source[] {
 	}));
 }
 
-const SEARCH_RESULTS_FOUND: Record<Locale, string> = {
-	fr: '{count} résultats trouvés via Bing.',
-	en: '{count} results found via Bing.',
-	es: '{count} resultados encontrados en Bing.',
-	zh: '通过 Bing 找到 {count} 个结果。',
-	de: '{count} Ergebnisse über Bing gefunden.'
+export const MESSAGES: Record<Locale, { searchResultsFound: string }> = {
+	fr: { searchResultsFound: '{count} résultats trouvés via Bing.' },
+	en: { searchResultsFound: '{count} results found via Bing.' },
+	es: { searchResultsFound: '{count} resultados encontrados en Bing.' },
+	zh: { searchResultsFound: '通过 Bing 找到 {count} 个结果。' },
+	de: { searchResultsFound: '{count} Ergebnisse über Bing gefunden.' }
 };
 
 function searchResultsFoundMsg(locale: Locale | undefined, count: number): string {
-	const template = SEARCH_RESULTS_FOUND[locale ?? 'fr'] ?? SEARCH_RESULTS_FOUND['fr'];
+	const template = (MESSAGES[locale ?? 'fr'] ?? MESSAGES['fr']).searchResultsFound;
 	return template.replace('{count}', String(count));
 }
 
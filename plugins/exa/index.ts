@@ -8,13 +8,17 @@
  */
 
 import type { PluginExport, PluginToolDefinition } from '../../src/types';
+import { SEARCH_RESULT_SCHEMA } from '../../src/search-result';
 import manifest from './manifest.json';
 import { createSearchExaTool } from './tools/search-exa';
 
+export { MESSAGES } from './tools/search-exa';
+
 const tools: PluginToolDefinition[] = [
 	{
 		id: 'search_exa',
 		createTool: (ctx) => createSearchExaTool(ctx),
+		outputSchema: SEARCH_RESULT_SCHEMA,
 		isAvailable: (env) => !!env.EXA_API_KEY
 	}
 ];
@@ -1,4 +1,4 @@
-import type { Source } from '../../../src/types';
+import type { SearchResult } from '../../../src/search-result';
 
 export interface SearchExaParams {
 	q: string;
@@ -28,8 +28,5 @@ export interface ExaErrorResponse {
 	message?: string;
 }
 
-export interface SearchExaResult {
-	message: string;
-	sources?: Source[];
-	content?: string;
-}
+/** Structured result returned to the application */
+export type SearchExaResult = SearchResult;
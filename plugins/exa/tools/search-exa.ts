@@ -77,16 +77,16 @@ function convertToSources(results: ExaSearchResult[]): Source[] {
 	}));
 }
 
-const SEARCH_RESULTS_FOUND: Record<Locale, string> = {
-	fr: '{count} résultats trouvés via Exa.',
-	en: '{count} results found via Exa.',
-	es: '{count} resultados encontrados en Exa.',
-	zh: '通过 Exa 找到 {count} 个结果。',
-	de: '{count} Ergebnisse über Exa gefunden.'
+export const MESSAGES: Record<Locale, { searchResultsFound: string }> = {
+	fr: { searchResultsFound: '{count} résultats trouvés via Exa.' },
+	en: { searchResultsFound: '{count} results found via Exa.' },
+	es: { searchResultsFound: '{count} resultados encontrados en Exa.' },
+	zh: { searchResultsFound: '通过 Exa 找到 {count} 个结果。' },
+	de: { searchResultsFound: '{count} Ergebnisse über Exa gefunden.' }
 };
 
 function searchResultsFoundMsg(locale: Locale | undefined, count: number): string {
-	const template = SEARCH_RESULTS_FOUND[locale ?? 'fr'] ?? SEARCH_RESULTS_FOUND['fr'];
+	const template = (MESSAGES[locale ?? 'fr'] ?? MESSAGES['fr']).searchResultsFound;
 	return template.replace('{count}', String(count));
 }
 
@@ -9,6 +9,8 @@ import type { PluginExport, PluginToolDefinition } from '../../src/types';
 import manifest from './manifest.json';
 import { createFetchUrlTool } from './tools/fetch-url';
 
+export { MESSAGES } from './tools/fetch-url';
+
 const tools: PluginToolDefinition[] = [
 	{
 		id: 'fetch_url',
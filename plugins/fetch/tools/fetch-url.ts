@@ -3,6 +3,7 @@ import type { PluginContext, AnyTool } from '../../../src/types';
 import TurndownService from 'turndown';
 import { Readability } from '@mozilla/readability';
 import { parseHTML } from 'linkedom';
+import manifest from '../manifest.json';
 
 interface FetchUrlParams {
 	url: string;
@@ -21,6 +22,39 @@ interface FetchUrlResult {
 	message: string;
 }
 
+export const MESSAGES = {
+	fr: {
+		startIndexOutOfRange: (startIndex: number, length: number) =>
+			`start_index (${startIndex}) depasse la longueur du contenu (${length})`,
+		truncated: (remaining: number, nextIndex: number) =>
+			`Contenu tronque. ${remaining} caracteres restants. Utilisez start_index=${nextIndex} pour la suite.`,
+		contentFetched: (length: number) => `Contenu recupere (${length} caracteres)`,
+		contentFetchedRange: (length: number, start: number, end: number) =>
+			`Contenu recupere (${length} caracteres, affichage ${start}-${end})`,
+		error: (error: string) => `Erreur : ${error}`,
+		errorFetching: (url: string, error: string) => `Erreur lors de la recuperation de ${url}: ${error}`
+	},
+	en: {
+		startIndexOutOfRange: (startIndex: number, length: number) =>
+			`start_index (${startIndex}) exceeds the content length (${length})`,
+		truncated: (remaining: number, nextIndex: number) =>
+			`Content truncated. ${remaining} characters remaining. Use start_index=${nextIndex} to continue.`,
+		contentFetched: (length: number) => `Content fetched (${length} characters)`,
+		contentFetchedRange: (length: number, start: number, end: number) =>
+			`Content fetched (${length} characters, showing ${start}-${end})`,
+		error: (error: string) => `Error: ${error}`,
+		errorFetching: (url: string, error: string) => `Error fetching ${url}: ${error}`
+	}
+};
+
+type Messages = (typeof MESSAGES)['fr'];
+
+// Locales without a catalog (es, zh, de) fall back to the manifest's defaultLocale
+function getMessages(locale?: string): Messages {
+	const catalogs: Partial<Record<string, Messages>> = MESSAGES;
+	return catalogs[locale ?? ''] ?? catalogs[manifest.i18n.defaultLocale] ?? MESSAGES.fr;
+}
+
 function isHtmlContent(contentType: string, body: string): boolean {
 	if (contentType.includes('text/html') || contentType.includes('application/xhtml')) {
 		return true;
@@ -57,11 +91,12 @@ function htmlToReadableMarkdown(html: string, url: string): string {
 function applyPagination(
 	content: string,
 	startIndex: number,
-	maxLength: number
+	maxLength: number,
+	msg: Messages
 ): { text: string; truncated: boolean } {
 	if (startIndex >= content.length) {
 		return {
-			text: `<error>start_index (${startIndex}) depasse la longueur du contenu (${content.length})</error>`,
+			text: `<error>${msg.startIndexOutOfRange(startIndex, content.length)}</error>`,
 			truncated: false
 		};
 	}
@@ -72,7 +107,7 @@ function applyPagination(
 	let text = slice;
 	if (truncated) {
 		const remaining = content.length - (startIndex + maxLength);
-		text += `\n\n---\n*Contenu tronque. ${remaining} caracteres restants. Utilisez start_index=${startIndex + maxLength} pour la suite.*`;
+		text += `\n\n---\n*${msg.truncated(remaining, startIndex + maxLength)}*`;
 	}
 
 	return { text, truncated };
@@ -80,6 +115,7 @@ function applyPagination(
 
 export function createFetchUrlTool(context: PluginContext): AnyTool {
 	const defaultMaxLength = (context.pluginConfig.maxLength as number) || 5000;
+	const msg = getMessages(context.locale);
 	const userAgent =
 		(context.pluginConfig.userAgent as string) ||
 		'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/131.0.0.0 Safari/537.36';
@@ -135,7 +171,7 @@ export function createFetchUrlTool(context: PluginContext): AnyTool {
 						contentLength: 0,
 						startIndex: 0,
 						truncated: false,
-						message: `Erreur : ${errorMsg}`
+						message: msg.error(errorMsg)
 					};
 				}
 
@@ -150,7 +186,7 @@ export function createFetchUrlTool(context: PluginContext): AnyTool {
 				}
 
 				const fullLength = content.length;
-				const { text, truncated } = applyPagination(content, startIndex, maxLength);
+				const { text, truncated } = applyPagination(content, startIndex, maxLength, msg);
 
 				return {
 					url,
@@ -160,20 +196,20 @@ export function createFetchUrlTool(context: PluginContext): AnyTool {
 					startIndex,
 					truncated,
 					message: truncated
-						? `Contenu recupere (${fullLength} caracteres, affichage ${startIndex}-${startIndex + maxLength})`
-						: `Contenu recupere (${fullLength} caracteres)`
+						? msg.contentFetchedRange(fullLength, startIndex, startIndex + maxLength)
+						: msg.contentFetched(fullLength)
 				};
 			} catch (error) {
 				const errorMsg = error instanceof Error ? error.message : String(error);
 				context.logger.error('Fetch error', { url, error: errorMsg });
 				return {
 					url,
-					content: `Erreur lors de la recuperation de ${url}: ${errorMsg}`,
+					content: msg.errorFetching(url, errorMsg),
 					contentType: 'text/plain',
 					contentLength: 0,
 					startIndex: 0,
 					truncated: false,
-					message: `Erreur : ${errorMsg}`
+					message: msg.error(errorMsg)
 				};
 			}
 		}
@@ -0,0 +1,72 @@
+/**
+ * Connections to the bridged MCP server
+ *
+ * One client per server target, shared by every tool call and closed on unload.
+ */
+
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { StdioClientTransport } from '@modelcontextprotocol/sdk/client/stdio.js';
+import { StreamableHTTPClientTransport } from '@modelcontextprotocol/sdk/client/streamableHttp.js';
+import type { ToolConfigValues } from '../../src/types';
+
+export type McpTarget = { kind: 'http'; url: string } | { kind: 'stdio'; command: string; args: string[] };
+
+const clients = new Map<string, Promise<Client>>();
+
+/**
+ * Splits a command line on whitespace, keeping quoted segments together
+ */
+function splitCommand(commandLine: string): string[] {
+	const parts = commandLine.match(/"[^"]*"|'[^']*'|\S+/g) ?? [];
+	return parts.map((part) => part.replace(/^(["'])(.*)\1$/, '$2'));
+}
+
+/**
+ * Picks the server from the plugin config first, then from the env (URL wins over command)
+ */
+export function resolveTarget(
+	config: ToolConfigValues,
+	env: Record<string, string | undefined>
+): McpTarget | null {
+	const url = (config.serverUrl as string) || env.MCP_BRIDGE_URL;
+	if (url) return { kind: 'http', url };
+
+	const commandLine = (config.command as string) || env.MCP_BRIDGE_COMMAND;
+	if (commandLine) {
+		const [command, ...args] = splitCommand(commandLine);
+		if (command) return { kind: 'stdio', command, args };
+	}
+	return null;
+}
+
+export function describeTarget(target: McpTarget): string {
+	return target.kind === 'http' ? target.url : [target.command, ...target.args].join(' ');
+}
+
+async function connect(target: McpTarget): Promise<Client> {
+	const client = new Client({ name: 'mcp-bridge-plugin', version: '1.0.0' });
+	const transport =
+		target.kind === 'http'
+			? new StreamableHTTPClientTransport(new URL(target.url))
+			: new StdioClientTransport({ command: target.command, args: target.args, stderr: 'ignore' });
+	await client.connect(transport);
+	return client;
+}
+
+export function getClient(target: McpTarget): Promise<Client> {
+	const key = JSON.stringify(target);
+	let client = clients.get(key);
+	if (!client) {
+		client = connect(target);
+		// Don't cache failed connections, so the next call retries
+		client.catch(() => clients.delete(key));
+		clients.set(key, client);
+	}
+	return client;
+}
+
+export async function closeClients(): Promise<void> {
+	const pending = [...clients.values()];
+	clients.clear();
+	await Promise.allSettled(pending.map(async (client) => (await client).close()));
+}
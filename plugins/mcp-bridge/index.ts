@@ -0,0 +1,132 @@
+/**
+ * MCP Bridge Plugin
+ *
+ * Wraps an external MCP server: it connects to the server, lists its tools and exposes
+ * each one as a plugin tool (with a generated manifest declaration). Calls are proxied
+ * through the AI SDK tool() wrapper.
+ *
+ * The server comes from the plugin config (serverUrl, command), else from the env:
+ *   MCP_BRIDGE_URL     - Streamable HTTP endpoint of the server
+ *   MCP_BRIDGE_COMMAND - Command line starting a stdio server
+ *
+ * onLoad lists the tools of the server named by the process env; an unreachable server
+ * leaves the plugin loaded with no tools. The playground then calls discoverTools with the
+ * resolved config and env of each run (.env files, profiles), which answers with the tools
+ * of the server they name, listed once per server.
+ */
+
+import type {
+	PluginExport,
+	PluginToolDeclaration,
+	PluginToolDefinition,
+	ToolConfigValues
+} from '../../src/types';
+import manifest from './manifest.json';
+import { closeClients, describeTarget, getClient, resolveTarget, type McpTarget } from './client';
+import { createProxyTool } from './tools/proxy-tool';
+
+const PLUGIN_ID = 'mcp-bridge';
+
+interface BridgedTools {
+	tools: PluginToolDefinition[];
+	declarations: PluginToolDeclaration[];
+}
+
+const tools: PluginToolDefinition[] = [];
+
+// Server ('' for none) -> its listing, so runs naming different servers don't share tools
+const listings = new Map<string, Promise<BridgedTools>>();
+
+/**
+ * Plugin tool ids are snake_case; MCP tool names may hold dashes, dots or capitals
+ */
+function toToolId(name: string): string {
+	return name
+		.replace(/([a-z0-9])([A-Z])/g, '$1_$2')
+		.replace(/[^a-zA-Z0-9]+/g, '_')
+		.replace(/^_+|_+$/g, '')
+		.toLowerCase();
+}
+
+async function listTools(target: McpTarget | null): Promise<BridgedTools> {
+	const bridged: BridgedTools = { tools: [], declarations: [] };
+	if (!target) {
+		console.log(
+			'[mcp-bridge] No MCP server configured (serverUrl, command, MCP_BRIDGE_URL or MCP_BRIDGE_COMMAND), no tools exposed'
+		);
+		return bridged;
+	}
+
+	const client = await getClient(target);
+	const { tools: mcpTools } = await client.listTools();
+
+	for (const mcpTool of mcpTools) {
+		const id = toToolId(mcpTool.name);
+		if (bridged.tools.some((t) => t.id === id)) {
+			console.warn(`[mcp-bridge] Skipping ${mcpTool.name}: tool id "${id}" already taken`);
+			continue;
+		}
+
+		const description = mcpTool.description ?? mcpTool.name;
+		bridged.declarations.push({
+			id,
+			name: mcpTool.title ?? mcpTool.annotations?.title ?? mcpTool.name,
+			description,
+			systemPromptInstructions: {
+				fr: `- ${PLUGIN_ID}_${id}: ${description}`,
+				en: `- ${PLUGIN_ID}_${id}: ${description}`
+			}
+		});
+		bridged.tools.push({
+			id,
+			createTool: (ctx) => createProxyTool(ctx, mcpTool, target)
+		});
+	}
+
+	console.log(`[mcp-bridge] Bridged ${bridged.tools.length} tool(s) from ${describeTarget(target)}`);
+	return bridged;
+}
+
+const plugin: PluginExport & {
+	discoverTools: (config: ToolConfigValues, env: Record<string, string | undefined>) => Promise<BridgedTools>;
+} = {
+	manifest: manifest as PluginExport['manifest'],
+	tools,
+
+	async onLoad() {
+		// Reset in case the module instance is reused across reloads
+		listings.clear();
+		let bridged: BridgedTools = { tools: [], declarations: [] };
+		try {
+			bridged = await plugin.discoverTools({}, process.env);
+		} catch (error) {
+			// Stay loaded, so the server can be fixed from the playground config or profile
+			console.error(`[mcp-bridge] Could not list the tools: ${error instanceof Error ? error.message : error}`);
+		}
+		tools.splice(0, tools.length, ...bridged.tools);
+		plugin.manifest.tools.splice(0, plugin.manifest.tools.length, ...bridged.declarations);
+	},
+
+	async onUnload() {
+		listings.clear();
+		await closeClients();
+	},
+
+	/**
+	 * Tools of the server named by the config or env, listed on the first call for that server
+	 */
+	discoverTools(config, env) {
+		const target = resolveTarget(config, env);
+		const key = target ? JSON.stringify(target) : '';
+		let listing = listings.get(key);
+		if (!listing) {
+			listing = listTools(target);
+			listings.set(key, listing);
+			// A failed listing is retried on the next call
+			listing.catch(() => listings.delete(key));
+		}
+		return listing;
+	}
+};
+
+export default plugin;
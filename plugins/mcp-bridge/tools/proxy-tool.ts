@@ -0,0 +1,48 @@
+import { tool, jsonSchema } from 'ai';
+import type { Tool as McpTool } from '@modelcontextprotocol/sdk/types.js';
+import type { PluginContext, AnyTool } from '../../../src/types';
+import { describeTarget, getClient, resolveTarget, type McpTarget } from '../client';
+
+interface ProxyResult {
+	message: string;
+	isError: boolean;
+	structuredContent?: Record<string, unknown>;
+	/** Non-text parts (images, audio, resources) as returned by the server */
+	content?: unknown[];
+}
+
+/**
+ * Proxies one tool of the bridged server. `fallbackTarget` is the server the tool
+ * was discovered on, used when the plugin config and env name none.
+ */
+export function createProxyTool(context: PluginContext, mcpTool: McpTool, fallbackTarget: McpTarget): AnyTool {
+	return tool({
+		description: mcpTool.description ?? mcpTool.name,
+		inputSchema: jsonSchema<Record<string, unknown>>(mcpTool.inputSchema),
+		execute: async (params): Promise<ProxyResult> => {
+			const target = resolveTarget(context.pluginConfig, context.env) ?? fallbackTarget;
+			context.logger.info('Calling MCP tool', { tool: mcpTool.name, server: describeTarget(target) });
+
+			const client = await getClient(target);
+			const result = await client.callTool({ name: mcpTool.name, arguments: params });
+
+			const content = (result.content ?? []) as { type: string; text?: string }[];
+			const text = content
+				.filter((part) => part.type === 'text' && part.text)
+				.map((part) => part.text)
+				.join('\n');
+
+			if (result.isError) {
+				context.logger.warn('MCP tool returned an error', { tool: mcpTool.name, message: text });
+			}
+
+			const otherParts = content.filter((part) => part.type !== 'text');
+			return {
+				message: text,
+				isError: !!result.isError,
+				structuredContent: result.structuredContent as Record<string, unknown> | undefined,
+				...(otherParts.length > 0 ? { content: otherParts } : {})
+			};
+		}
+	});
+}
@@ -0,0 +1,33 @@
+/**
+ * OAuth Plugin (Demo)
+ *
+ * A demonstration plugin for the generic per-user OAuth flow (oauthHandlers + context.tokens).
+ * Works offline against the playground's fake OAuth server.
+ */
+
+import type { PluginExport, PluginToolDefinition } from '../../src/types';
+import manifest from './manifest.json';
+import { oauthHandlers } from './oauth';
+import { createGetProfileTool } from './tools/get-profile';
+
+export { MESSAGES } from './tools/get-profile';
+
+const tools: PluginToolDefinition[] = [
+	{
+		id: 'get_profile',
+		createTool: (ctx) => createGetProfileTool(ctx),
+		isAvailable: () => true
+	}
+];
+
+const plugin: PluginExport = {
+	manifest: manifest as PluginExport['manifest'],
+	tools,
+	oauthHandlers,
+
+	async onLoad() {
+		console.log('[oauth-demo] OAuth demo plugin loaded');
+	}
+};
+
+export default plugin;
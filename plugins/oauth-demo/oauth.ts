@@ -0,0 +1,75 @@
+import type { PluginOAuthHandlers, ToolConfigValues } from '../../src/types';
+
+const DEFAULT_AUTH_SERVER_URL = 'http://localhost:4555';
+const DEFAULT_CLIENT_ID = 'plugin-playground';
+const SCOPE = 'profile';
+
+interface TokenResponse {
+	access_token: string;
+	refresh_token?: string;
+	expires_in?: number;
+	scope?: string;
+	error?: string;
+	error_description?: string;
+}
+
+export function getAuthServerUrl(config: ToolConfigValues): string {
+	return ((config.authServerUrl as string) || DEFAULT_AUTH_SERVER_URL).replace(/\/$/, '');
+}
+
+function getClientId(config: ToolConfigValues): string {
+	return (config.clientId as string) || DEFAULT_CLIENT_ID;
+}
+
+async function requestToken(config: ToolConfigValues, form: Record<string, string>): Promise<TokenResponse> {
+	const response = await fetch(`${getAuthServerUrl(config)}/token`, {
+		method: 'POST',
+		headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+		body: new URLSearchParams({ ...form, client_id: getClientId(config) })
+	});
+	const data: TokenResponse = await response.json();
+
+	if (!response.ok) {
+		throw new Error(`Token request failed: ${data.error_description || data.error || response.status}`);
+	}
+	return data;
+}
+
+export const oauthHandlers: PluginOAuthHandlers = {
+	buildAuthUrl({ redirectUri, state, config }) {
+		const url = new URL(`${getAuthServerUrl(config)}/authorize`);
+		url.searchParams.set('response_type', 'code');
+		url.searchParams.set('client_id', getClientId(config));
+		url.searchParams.set('redirect_uri', redirectUri);
+		url.searchParams.set('scope', SCOPE);
+		url.searchParams.set('state', state);
+		return url.toString();
+	},
+
+	async exchangeCode({ code, redirectUri, config }) {
+		const data = await requestToken(config, {
+			grant_type: 'authorization_code',
+			code,
+			redirect_uri: redirectUri
+		});
+		return {
+			accessToken: data.access_token,
+			refreshToken: data.refresh_token,
+			expiresIn: data.expires_in,
+			scope: data.scope
+		};
+	},
+
+	async refresh({ refreshToken, config }) {
+		const data = await requestToken(config, {
+			grant_type: 'refresh_token',
+			refresh_token: refreshToken
+		});
+		return {
+			accessToken: data.access_token,
+			refreshToken: data.refresh_token,
+			expiresIn: data.expires_in,
+			scope: data.scope
+		};
+	}
+};
@@ -0,0 +1,73 @@
+import { tool, jsonSchema } from 'ai';
+import type { PluginContext, AnyTool } from '../../../src/types';
+import { getAuthServerUrl } from '../oauth';
+
+interface ProfileResult {
+	message: string;
+	profile?: {
+		sub: string;
+		name: string;
+		email: string;
+		scope: string;
+	};
+}
+
+export const MESSAGES = {
+	fr: {
+		notConnected: "Aucun compte n'est connecte. Connectez votre compte pour utiliser cet outil.",
+		connectedAs: (name: string, email: string) => `Compte connecte : ${name} (${email}).`,
+		errorProfile: (error: string) => `Erreur lors de la recuperation du profil : ${error}`
+	},
+	en: {
+		notConnected: 'No account is connected. Connect your account to use this tool.',
+		connectedAs: (name: string, email: string) => `Connected account: ${name} (${email}).`,
+		errorProfile: (error: string) => `Error fetching profile: ${error}`
+	}
+};
+
+function getMessages(locale?: string) {
+	return locale === 'en' ? MESSAGES.en : MESSAGES.fr;
+}
+
+export function createGetProfileTool(context: PluginContext): AnyTool {
+	return tool({
+		description:
+			"Retourne le profil du compte connecte par l'utilisateur via OAuth. ATTENTION: Ce sont des donnees de demonstration.",
+		inputSchema: jsonSchema<Record<string, never>>({
+			type: 'object',
+			properties: {},
+			required: []
+		}),
+		execute: async (): Promise<ProfileResult> => {
+			const msg = getMessages(context.locale);
+			const tokens = await context.tokens.get();
+
+			if (!tokens) {
+				context.logger.warn('No OAuth token available');
+				return { message: msg.notConnected };
+			}
+
+			context.logger.info('Fetching profile', { expiresAt: tokens.expiresAt?.toISOString() });
+
+			try {
+				const response = await fetch(`${getAuthServerUrl(context.pluginConfig)}/userinfo`, {
+					headers: { Authorization: `Bearer ${tokens.accessToken}` }
+				});
+
+				if (!response.ok) {
+					context.logger.error('Userinfo request failed', { status: response.status });
+					return { message: msg.errorProfile(`${response.status} ${response.statusText}`) };
+				}
+
+				const profile: NonNullable<ProfileResult['profile']> = await response.json();
+				return {
+					message: msg.connectedAs(profile.name, profile.email),
+					profile
+				};
+			} catch (error) {
+				context.logger.error('Error fetching profile', { error });
+				return { message: msg.errorProfile(error instanceof Error ? error.message : 'Unknown error') };
+			}
+		}
+	});
+}
@@ -8,6 +8,8 @@ import type { PluginExport, PluginToolDefinition } from '../../src/types';
 import manifest from './manifest.json';
 import { createSearchPixabayTool } from './tools/search-images';
 
+export { MESSAGES } from './tools/search-images';
+
 const tools: PluginToolDefinition[] = [
 	{
 		id: 'search_images',
@@ -129,7 +129,7 @@ interface SearchPixabayResult {
 	media?: MediaAttachment[];
 }
 
-const MESSAGES = {
+export const MESSAGES = {
 	fr: {
 		noImagesFound: 'Aucune image trouvee pour cette recherche.',
 		imagesFound: (count: number, total: string) =>
@@ -0,0 +1,78 @@
+/**
+ * Serves the playground plugins over the Model Context Protocol
+ *
+ *   npm run mcp                                   # stdio, for clients that spawn the server
+ *   npm run mcp -- --transport http --port 3333   # Streamable HTTP on http://localhost:3333/mcp
+ *   npm run mcp -- --config path/to/mcp.config.json
+ *
+ * Logs go to stderr; on stdio, stdout belongs to the protocol.
+ */
+
+import { createServer } from 'node:http';
+import { parseArgs } from 'node:util';
+import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
+import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+import { createMcpServer, loadMcpConfig } from '../src/lib/server/mcp-server';
+import { loadPlugins, unloadPlugins } from '../src/lib/server/plugin-loader';
+
+const { values } = parseArgs({
+	options: {
+		transport: { type: 'string', default: 'stdio' },
+		port: { type: 'string', default: '3333' },
+		host: { type: 'string', default: 'localhost' },
+		config: { type: 'string' }
+	}
+});
+
+// stdout carries JSON-RPC on stdio, so nothing else may write there
+console.log = console.info = console.debug = console.warn = console.error;
+
+const config = await loadMcpConfig(values.config);
+await loadPlugins();
+
+async function shutdown() {
+	await unloadPlugins();
+	process.exit(0);
+}
+process.once('SIGINT', shutdown);
+process.once('SIGTERM', shutdown);
+
+if (values.transport === 'stdio') {
+	await createMcpServer(config).connect(new StdioServerTransport());
+	console.error('[mcp] Serving plugins over stdio');
+} else if (values.transport === 'http') {
+	const port = Number(values.port);
+
+	const httpServer = createServer(async (req, res) => {
+		if (new URL(req.url ?? '/', 'http://localhost').pathname !== '/mcp') {
+			res.writeHead(404).end();
+			return;
+		}
+
+		// Stateless: a fresh server and transport per request, no session to keep
+		const server = createMcpServer(config);
+		const transport = new StreamableHTTPServerTransport({ sessionIdGenerator: undefined });
+		res.on('close', () => {
+			void transport.close();
+			void server.close();
+		});
+
+		try {
+			await server.connect(transport);
+			await transport.handleRequest(req, res);
+		} catch (error) {
+			console.error('[mcp] Request failed:', error);
+			if (!res.headersSent) {
+				res.writeHead(500, { 'Content-Type': 'application/json' });
+				res.end(JSON.stringify({ jsonrpc: '2.0', error: { code: -32603, message: 'Internal error' }, id: null }));
+			}
+		}
+	});
+
+	httpServer.listen(port, values.host, () => {
+		console.error(`[mcp] Serving plugins over Streamable HTTP on http://${values.host}:${port}/mcp`);
+	});
+} else {
+	console.error(`Unknown --transport "${values.transport}" (expected stdio or http)`);
+	process.exit(2);
+}
@@ -0,0 +1,294 @@
+/**
+ * Command-line interface for the playground plugins
+ *
+ *   npm run plugin -- list [--json] [--profile name] [--env-file .env]
+ *   npm run plugin -- schema <plugin> <tool>
+ *   npm run plugin -- run <plugin> <tool> [--preset name] [--params JSON|@file] [--config JSON|@file]
+ *                        [--profile name] [--env-file .env] [--locale fr] [--cassette live|record|replay] [--json]
+ *
+ * The plugins' declared env vars are read as in the playground (process env, .env, then
+ * .env.<profile> and the stored profile with --profile), then from --env-file.
+ * --params and --config are merged over the params and config of --preset, which are merged
+ * over the config stored in --profile.
+ * Plugin logs go to stderr. Exit codes: 0 success, 1 runtime failure, 2 usage error,
+ * 3 invalid params or config, 4 tool unavailable (missing env vars or OAuth connection),
+ * 5 result not matching the tool's outputSchema (the result is printed all the same).
+ */
+
+import { readFile } from 'node:fs/promises';
+import { parseArgs } from 'node:util';
+import type { Locale, ToolConfigValues } from '../src/types';
+import { CASSETTE_MODES, type CassetteMode } from '../src/lib/server/cassettes';
+import { readEnvFile } from '../src/lib/server/env-file';
+import {
+	ConfigValidationError,
+	PlaygroundError,
+	PluginOAuthRequiredError,
+	ToolInputValidationError,
+	ToolUnavailableError
+} from '../src/lib/server/errors';
+import { LOCALES } from '../src/lib/server/plugin-context';
+import { findPreset, listPresets } from '../src/lib/server/presets';
+import { getProfileConfig } from '../src/lib/server/profiles';
+import { resolvePluginEnv } from '../src/lib/server/server-env';
+import {
+	describeTool,
+	executeTool,
+	getPlugin,
+	getPluginLoadErrors,
+	getPlugins,
+	resolvePluginTools,
+	unloadPlugins,
+	type PluginInfo
+} from '../src/lib/server/plugin-loader';
+
+const EXIT = { ok: 0, runtime: 1, usage: 2, validation: 3, unavailable: 4, output: 5 } as const;
+
+class UsageError extends Error {}
+
+const USAGE = `Usage:
+  plugin list [--json] [--profile <name>] [--env-file <path>]
+  plugin schema <plugin> <tool>
+  plugin run <plugin> <tool> [--preset <name>] [--params <json|@file>] [--config <json|@file>]
+             [--profile <name>] [--env-file <path>] [--locale <${LOCALES.join('|')}>] [--cassette <${CASSETTE_MODES.join('|')}>] [--json]`;
+
+function parseCommandLine() {
+	try {
+		return parseArgs({
+			allowPositionals: true,
+			options: {
+				preset: { type: 'string' },
+				params: { type: 'string' },
+				config: { type: 'string' },
+				profile: { type: 'string' },
+				'env-file': { type: 'string' },
+				locale: { type: 'string' },
+				cassette: { type: 'string' },
+				json: { type: 'boolean', default: false },
+				help: { type: 'boolean', short: 'h', default: false }
+			}
+		});
+	} catch (error) {
+		console.error(`${(error as Error).message}\n\n${USAGE}`);
+		process.exit(EXIT.usage);
+	}
+}
+
+const { values, positionals } = parseCommandLine();
+
+// Plugin and loader logs go to stderr so stdout only carries the command output
+console.log = console.info = console.debug = console.warn = console.error;
+
+function print(text: string) {
+	process.stdout.write(text.endsWith('\n') ? text : `${text}\n`);
+}
+
+async function readJsonOption(value: string | undefined, name: string): Promise<Record<string, unknown>> {
+	if (value === undefined) return {};
+	const text = value.startsWith('@') ? await readFile(value.slice(1), 'utf-8') : value;
+	try {
+		const parsed = JSON.parse(text);
+		if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) throw new Error('not an object');
+		return parsed;
+	} catch (error) {
+		throw new UsageError(`--${name} must be a JSON object: ${(error as Error).message}`);
+	}
+}
+
+async function readEnv(plugin: PluginInfo): Promise<Record<string, string>> {
+	const env = await resolvePluginEnv(plugin.id, { profile: values.profile }).catch((error) => {
+		// An unknown or invalid --profile
+		throw error instanceof PlaygroundError ? new UsageError(error.message) : error;
+	});
+	if (values['env-file']) {
+		Object.assign(env, await readEnvFile(values['env-file']));
+	}
+	return env;
+}
+
+// The profile's config of the plugin, under --config
+async function readConfig(pluginId: string): Promise<Record<string, unknown>> {
+	return { ...(await getProfileConfig(values.profile, pluginId)), ...(await readJsonOption(values.config, 'config')) };
+}
+
+/**
+ * The plugin with the tools it lists with the profile's config, --config and the CLI env,
+ * for plugins listing them from their config and env (mcp-bridge)
+ */
+async function syncTools(plugin: PluginInfo): Promise<PluginInfo> {
+	const resolved = await resolvePluginTools((await getPlugin(plugin.id))!, await readConfig(plugin.id), await readEnv(plugin));
+	return {
+		...plugin,
+		tools: resolved.manifest.tools.map(({ id, name, description, requiresPluginOAuth }) => ({
+			id,
+			name,
+			description,
+			requiresPluginOAuth
+		}))
+	};
+}
+
+async function findPluginAndTool(pluginId?: string, toolId?: string): Promise<PluginInfo> {
+	if (!pluginId || !toolId) throw new UsageError('Expected <plugin> <tool>');
+	const found = (await getPlugins()).find((p) => p.id === pluginId);
+	if (!found) throw new UsageError(`Unknown plugin "${pluginId}"`);
+	const plugin = await syncTools(found);
+	if (!plugin.tools.some((t) => t.id === toolId)) {
+		throw new UsageError(`Unknown tool "${toolId}" in ${pluginId} (tools: ${plugin.tools.map((t) => t.id).join(', ')})`);
+	}
+	return plugin;
+}
+
+async function listCommand(): Promise<number> {
+	const plugins: PluginInfo[] = [];
+	for (const listed of await getPlugins()) {
+		plugins.push(
+			await syncTools(listed).catch((error) => {
+				console.error(`${listed.id}: could not list the tools: ${error instanceof Error ? error.message : error}`);
+				return listed;
+			})
+		);
+	}
+	const loadErrors = await getPluginLoadErrors();
+
+	if (values.json) {
+		print(JSON.stringify({ plugins, loadErrors }, null, 2));
+		return EXIT.ok;
+	}
+
+	for (const plugin of plugins) {
+		print(`${plugin.id} (${plugin.version}) - ${plugin.name}`);
+		const env = await readEnv(plugin);
+		const missing = plugin.requiredEnvVars.filter((name) => !env[name]);
+		if (missing.length > 0) print(`  missing env: ${missing.join(', ')}`);
+		for (const tool of plugin.tools) {
+			print(`  ${tool.id.padEnd(24)} ${tool.description}`);
+		}
+	}
+	for (const error of loadErrors) {
+		print(`! plugins/${error.directory}: ${error.message}`);
+	}
+	return EXIT.ok;
+}
+
+async function schemaCommand(pluginId?: string, toolId?: string): Promise<number> {
+	const plugin = await findPluginAndTool(pluginId, toolId);
+	const description = await describeTool(plugin.id, toolId!, {
+		config: (await readConfig(plugin.id)) as ToolConfigValues,
+		env: await readEnv(plugin)
+	});
+	print(JSON.stringify(description?.inputSchema ?? null, null, 2));
+	return EXIT.ok;
+}
+
+function exitCodeFor(error: unknown): number {
+	if (error instanceof ToolInputValidationError || error instanceof ConfigValidationError) return EXIT.validation;
+	if (error instanceof ToolUnavailableError || error instanceof PluginOAuthRequiredError) return EXIT.unavailable;
+	return EXIT.runtime;
+}
+
+async function runCommand(pluginId?: string, toolId?: string): Promise<number> {
+	const plugin = await findPluginAndTool(pluginId, toolId);
+
+	const locale = values.locale as Locale | undefined;
+	if (locale !== undefined && !LOCALES.includes(locale)) {
+		throw new UsageError(`--locale must be one of: ${LOCALES.join(', ')}`);
+	}
+	const cassette = values.cassette as CassetteMode | undefined;
+	if (cassette !== undefined && !CASSETTE_MODES.includes(cassette)) {
+		throw new UsageError(`--cassette must be one of: ${CASSETTE_MODES.join(', ')}`);
+	}
+
+	let params = await readJsonOption(values.params, 'params');
+	let config = (await readJsonOption(values.config, 'config')) as ToolConfigValues;
+	if (values.preset !== undefined) {
+		const preset = await findPreset(plugin.id, toolId!, values.preset);
+		if (!preset) {
+			const names = (await listPresets(plugin.id, toolId!)).map((p) => p.slug);
+			throw new UsageError(
+				`Unknown preset "${values.preset}" for ${plugin.id}/${toolId} (presets: ${names.join(', ') || 'none'})`
+			);
+		}
+		params = { ...preset.params, ...params };
+		config = { ...preset.config, ...config };
+	}
+	const env = await readEnv(plugin);
+	config = { ...(await getProfileConfig(values.profile, plugin.id)), ...config };
+
+	try {
+		const { result, execution } = await executeTool({
+			pluginId: plugin.id,
+			toolId: toolId!,
+			params,
+			config,
+			env,
+			context: locale ? { locale } : undefined,
+			cassette,
+			profile: values.profile
+		});
+
+		if (values.json) {
+			print(JSON.stringify({ success: true, result, execution }, null, 2));
+		} else {
+			print(JSON.stringify(result, null, 2));
+			console.error(
+				`\n✓ ${plugin.id}/${toolId} in ${execution.durationMs} ms · ${execution.httpCalls.length} HTTP call(s) · ` +
+					`${execution.resultBytes} B (~${execution.resultTokens} tokens)`
+			);
+			for (const outputError of execution.outputErrors ?? []) {
+				console.error(`  ⚠ output ${outputError.field || '(result)'}: ${outputError.message}`);
+			}
+		}
+		return execution.outputErrors ? EXIT.output : EXIT.ok;
+	} catch (error) {
+		const message = error instanceof Error ? error.message : String(error);
+		const details = error instanceof PlaygroundError ? error.details : {};
+
+		if (values.json) {
+			print(JSON.stringify({ success: false, error: message, ...details }, null, 2));
+		} else {
+			console.error(`✗ ${message}`);
+			for (const fieldError of (details.fieldErrors as { field: string; message: string }[] | undefined) ?? []) {
+				console.error(`  ${fieldError.field || '(input)'}: ${fieldError.message}`);
+			}
+			for (const configError of (details.configErrors as { field: string; message: string }[] | undefined) ?? []) {
+				console.error(`  config.${configError.field}: ${configError.message}`);
+			}
+		}
+		return exitCodeFor(error);
+	}
+}
+
+async function main(): Promise<number> {
+	const [command, ...args] = positionals;
+	if (values.help || !command) {
+		print(USAGE);
+		return values.help ? EXIT.ok : EXIT.usage;
+	}
+
+	switch (command) {
+		case 'list':
+			return listCommand();
+		case 'schema':
+			return schemaCommand(args[0], args[1]);
+		case 'run':
+			return runCommand(args[0], args[1]);
+		default:
+			throw new UsageError(`Unknown command "${command}"`);
+	}
+}
+
+let exitCode: number;
+try {
+	exitCode = await main();
+} catch (error) {
+	if (error instanceof UsageError) {
+		console.error(`${error.message}\n\n${USAGE}`);
+		exitCode = EXIT.usage;
+	} else {
+		console.error(error);
+		exitCode = EXIT.runtime;
+	}
+}
+await unloadPlugins();
+process.exit(exitCode);
@@ -0,0 +1,42 @@
+/**
+ * Headless runner for the plugins' tests.json suites
+ *
+ *   npm run test:plugins -- [--format tap|junit] [--output report.xml] [pluginId...]
+ *
+ * Exits with 1 when any case fails.
+ */
+
+import { writeFile } from 'node:fs/promises';
+import { parseArgs } from 'node:util';
+import { unloadPlugins } from '../src/lib/server/plugin-loader';
+import { formatJUnit, formatTap, runPluginTests } from '../src/lib/server/plugin-tests';
+
+const { values, positionals } = parseArgs({
+	allowPositionals: true,
+	options: {
+		format: { type: 'string', default: 'tap' },
+		output: { type: 'string' }
+	}
+});
+
+if (values.format !== 'tap' && values.format !== 'junit') {
+	console.error(`Unknown --format "${values.format}" (expected tap or junit)`);
+	process.exit(2);
+}
+
+// Plugin and loader logs go to stderr so stdout only carries the report
+console.log = console.info = console.debug = console.warn = console.error;
+
+const results = await runPluginTests(positionals);
+await unloadPlugins();
+
+const report = values.format === 'junit' ? formatJUnit(results) : formatTap(results);
+if (values.output) {
+	await writeFile(values.output, report);
+	const failed = results.filter((r) => !r.passed).length;
+	console.error(`${results.length - failed}/${results.length} passed, report written to ${values.output}`);
+} else {
+	process.stdout.write(report);
+}
+
+process.exit(results.every((r) => r.passed) ? 0 : 1);
@@ -0,0 +1,18 @@
+import type { ServerInit } from '@sveltejs/kit';
+import { dev } from '$app/environment';
+import { loadPlugins, registerPluginShutdown, watchPlugins } from '$lib/server/plugin-loader';
+import { startFakeOAuthServer } from '$lib/server/fake-oauth-server';
+import { loadPlaygroundEnv } from '$lib/server/server-env';
+
+export const init: ServerInit = async () => {
+	// The fake OAuth server is a dev aid; a production build only starts it when asked to
+	const env = await loadPlaygroundEnv();
+	if (dev || env.FAKE_OAUTH_PORT) {
+		startFakeOAuthServer(env);
+	}
+	await loadPlugins();
+	registerPluginShutdown();
+	if (dev) {
+		watchPlugins();
+	}
+};
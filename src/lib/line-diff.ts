@@ -0,0 +1,69 @@
+/**
+ * Line diff for the side-by-side result comparison
+ */
+
+export interface DiffRow {
+	/** Line on the left (old) side; null when the row only exists on the right */
+	left: string | null;
+	right: string | null;
+	kind: 'same' | 'removed' | 'added' | 'changed';
+}
+
+// Above this the LCS table gets too large for the browser; rows are paired by index instead
+const MAX_LCS_CELLS = 4_000_000;
+
+/**
+ * Aligns two texts line by line (longest common subsequence); a removal directly
+ * followed by an addition is shown as one changed row
+ */
+export function diffLines(oldText: string, newText: string): DiffRow[] {
+	const a = oldText.split('\n');
+	const b = newText.split('\n');
+
+	if (a.length * b.length > MAX_LCS_CELLS) {
+		return Array.from({ length: Math.max(a.length, b.length) }, (_, i) => {
+			const left = a[i] ?? null;
+			const right = b[i] ?? null;
+			const kind = left === right ? 'same' : left === null ? 'added' : right === null ? 'removed' : 'changed';
+			return { left, right, kind };
+		});
+	}
+
+	// lengths[i][j] = LCS length of a[i..] and b[j..]
+	const lengths = Array.from({ length: a.length + 1 }, () => new Uint32Array(b.length + 1));
+	for (let i = a.length - 1; i >= 0; i--) {
+		for (let j = b.length - 1; j >= 0; j--) {
+			lengths[i][j] = a[i] === b[j] ? lengths[i + 1][j + 1] + 1 : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+		}
+	}
+
+	const rows: DiffRow[] = [];
+	let removed: string[] = [];
+	let added: string[] = [];
+	const flush = () => {
+		for (let k = 0; k < Math.max(removed.length, added.length); k++) {
+			const left = removed[k] ?? null;
+			const right = added[k] ?? null;
+			rows.push({ left, right, kind: left === null ? 'added' : right === null ? 'removed' : 'changed' });
+		}
+		removed = [];
+		added = [];
+	};
+
+	let i = 0;
+	let j = 0;
+	while (i < a.length || j < b.length) {
+		if (i < a.length && j < b.length && a[i] === b[j]) {
+			flush();
+			rows.push({ left: a[i], right: b[j], kind: 'same' });
+			i++;
+			j++;
+		} else if (j < b.length && (i === a.length || lengths[i][j + 1] >= lengths[i + 1][j])) {
+			added.push(b[j++]);
+		} else {
+			removed.push(a[i++]);
+		}
+	}
+	flush();
+	return rows;
+}
@@ -0,0 +1,139 @@
+/**
+ * Markdown to HTML for tool results (fetched pages, search summaries)
+ *
+ * The text is HTML-escaped before anything else, so content coming from a fetched page
+ * can't inject markup: only the constructs handled here are produced (headings,
+ * paragraphs, lists, blockquotes, code, emphasis, rules, and links and images with
+ * http(s) URLs). Tables and raw HTML are shown as text.
+ */
+
+export interface MarkdownOptions {
+	/** Link target of a `[Source N]` citation (1-based); citations stay plain text without it */
+	citationHref?: (index: number) => string;
+}
+
+const SAFE_URL = /^(https?:\/\/|mailto:)/i;
+
+function escapeHtml(text: string): string {
+	return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}
+
+// Links, citations and emphasis, on text that is already escaped
+function renderSpan(text: string, options: MarkdownOptions): string {
+	// Generated tags are set aside so emphasis can't reach into their URLs
+	const tags: string[] = [];
+	const keep = (html: string) => `\u0000${tags.push(html) - 1}\u0000`;
+
+	let html = text
+		.replace(/!\[([^\]]*)\]\(([^)\s]+)(?:\s+&quot;[^)]*&quot;)?\)/g, (match, alt, url) =>
+			SAFE_URL.test(url) ? keep(`<img src="${url}" alt="${alt}" loading="lazy">`) : match
+		)
+		.replace(/\[([^\]]+)\]\(([^)\s]+)(?:\s+&quot;[^)]*&quot;)?\)/g, (match, label, url) =>
+			SAFE_URL.test(url)
+				? `${keep(`<a href="${url}" target="_blank" rel="noopener noreferrer">`)}${label}${keep('</a>')}`
+				: match
+		);
+
+	if (options.citationHref) {
+		html = html.replace(/\[Source\s+(\d+)\](?!\()/gi, (match, index) =>
+			keep(`<a href="${options.citationHref!(Number(index))}" data-citation="${index}">${match}</a>`)
+		);
+	}
+
+	return html
+		.replace(/\*\*(.+?)\*\*|__(.+?)__/g, (_match, a, b) => `<strong>${a ?? b}</strong>`)
+		.replace(/(^|[^\w*])\*(?!\s)(.+?)\*(?!\w)/g, '$1<em>$2</em>')
+		.replace(/(^|\W)_(?!\s)(.+?)_(?!\w)/g, '$1<em>$2</em>')
+		.replace(/\u0000(\d+)\u0000/g, (_match, index) => tags[Number(index)]);
+}
+
+function renderInline(text: string, options: MarkdownOptions): string {
+	// Code spans are kept verbatim
+	return escapeHtml(text.replace(/\u0000/g, ''))
+		.split(/(`[^`]+`)/)
+		.map((part) =>
+			part.startsWith('`') && part.endsWith('`') && part.length > 1
+				? `<code>${part.slice(1, -1)}</code>`
+				: renderSpan(part, options)
+		)
+		.join('');
+}
+
+const LIST_ITEM = /^\s*([-*+]|\d+[.)])\s+(.*)$/;
+
+export function renderMarkdown(markdown: string, options: MarkdownOptions = {}): string {
+	const lines = markdown.replace(/\r\n?/g, '\n').split('\n');
+	const blocks: string[] = [];
+	let paragraph: string[] = [];
+
+	const flushParagraph = () => {
+		if (paragraph.length > 0) blocks.push(`<p>${renderInline(paragraph.join(' '), options)}</p>`);
+		paragraph = [];
+	};
+
+	for (let i = 0; i < lines.length; i++) {
+		const line = lines[i];
+
+		const fence = line.match(/^\s*(```|~~~)/);
+		if (fence) {
+			flushParagraph();
+			const code: string[] = [];
+			while (++i < lines.length && !lines[i].trimStart().startsWith(fence[1])) code.push(lines[i]);
+			blocks.push(`<pre><code>${escapeHtml(code.join('\n'))}</code></pre>`);
+			continue;
+		}
+
+		const heading = line.match(/^(#{1,6})\s+(.*?)\s*#*\s*$/);
+		if (heading) {
+			flushParagraph();
+			const level = heading[1].length;
+			blocks.push(`<h${level}>${renderInline(heading[2], options)}</h${level}>`);
+			continue;
+		}
+
+		if (/^\s*([-*_])(\s*\1){2,}\s*$/.test(line)) {
+			flushParagraph();
+			blocks.push('<hr>');
+			continue;
+		}
+
+		if (/^\s*>/.test(line)) {
+			flushParagraph();
+			const quoted: string[] = [];
+			for (; i < lines.length && /^\s*>/.test(lines[i]); i++) quoted.push(lines[i].replace(/^\s*>\s?/, ''));
+			i--;
+			blocks.push(`<blockquote>${renderMarkdown(quoted.join('\n'), options)}</blockquote>`);
+			continue;
+		}
+
+		const item = line.match(LIST_ITEM);
+		if (item) {
+			flushParagraph();
+			const tag = /\d/.test(item[1]) ? 'ol' : 'ul';
+			const items: string[] = [];
+			for (; i < lines.length; i++) {
+				const next = lines[i].match(LIST_ITEM);
+				if (next) {
+					items.push(next[2]);
+				} else if (lines[i].trim() && /^\s+/.test(lines[i]) && items.length > 0) {
+					// Indented continuation of the previous item
+					items[items.length - 1] += ` ${lines[i].trim()}`;
+				} else {
+					break;
+				}
+			}
+			i--;
+			blocks.push(`<${tag}>${items.map((text) => `<li>${renderInline(text, options)}</li>`).join('')}</${tag}>`);
+			continue;
+		}
+
+		if (line.trim() === '') {
+			flushParagraph();
+		} else {
+			paragraph.push(line.trim());
+		}
+	}
+	flushParagraph();
+
+	return blocks.join('\n');
+}
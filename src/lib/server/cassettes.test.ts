@@ -0,0 +1,91 @@
+import assert from 'node:assert/strict';
+import { createServer, type Server } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { mkdtemp, readFile, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+import { after, before, test } from 'node:test';
+import { openCassette, type Cassette } from './cassettes';
+import { recordExecution } from './execution-record';
+
+let server: Server;
+let baseUrl: string;
+let pluginDir: string;
+
+before(async () => {
+	// Echoes the request body back as JSON; /events opens an event stream that never ends
+	server = createServer((req, res) => {
+		if (req.url === '/events') {
+			res.writeHead(200, { 'Content-Type': 'text/event-stream' });
+			res.write('data: ready\n\n');
+			return;
+		}
+		let body = '';
+		req.on('data', (chunk) => (body += chunk));
+		req.on('end', () => {
+			res.writeHead(200, { 'Content-Type': 'application/json' });
+			res.end(JSON.stringify({ method: req.method, received: body }));
+		});
+	});
+	await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+	baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+	pluginDir = await mkdtemp(path.join(tmpdir(), 'cassettes-'));
+});
+
+after(async () => {
+	server.closeAllConnections();
+	server.close();
+	await rm(pluginDir, { recursive: true, force: true });
+});
+
+const postQuery = () =>
+	fetch(`${baseUrl}/search`, {
+		method: 'POST',
+		headers: { 'Content-Type': 'application/json' },
+		body: JSON.stringify({ query: 'cassettes', apiKey: 'sk-test-secret' })
+	}).then((response) => response.json());
+
+test('records a POST with its body and replays it', async () => {
+	const options = {
+		pluginDir,
+		pluginId: 'demo',
+		toolId: 'search',
+		params: { query: 'cassettes' },
+		secrets: ['sk-test-secret'],
+		responseSecrets: ['sk-test-secret']
+	};
+
+	const recording = await openCassette({ ...options, mode: 'record' });
+	const recorded = await recordExecution(options.secrets, postQuery, recording.interceptor);
+	assert.ok('value' in recorded, 'the recorded run fails');
+	assert.equal((recorded.value as { method: string }).method, 'POST');
+	await recording.finish();
+
+	const cassette: Cassette = JSON.parse(await readFile(path.resolve(recording.file), 'utf-8'));
+	assert.equal(cassette.interactions.length, 1);
+	assert.equal(cassette.interactions[0].request.method, 'POST');
+	assert.equal(cassette.interactions[0].request.body, '{"query":"cassettes","apiKey":"[REDACTED]"}');
+
+	const replay = await openCassette({ ...options, mode: 'replay' });
+	const replayed = await recordExecution(options.secrets, postQuery, replay.interceptor);
+	assert.ok('value' in replayed, 'the replayed run fails');
+	assert.deepEqual(replayed.value, { method: 'POST', received: '{"query":"cassettes","apiKey":"[REDACTED]"}' });
+	await replay.finish();
+});
+
+test('passes event streams through without recording them', async () => {
+	const options = { pluginDir, pluginId: 'demo', toolId: 'events', params: {}, secrets: [], responseSecrets: [] };
+
+	const recording = await openCassette({ ...options, mode: 'record' });
+	const recorded = await recordExecution(
+		[],
+		async () => (await fetch(`${baseUrl}/events`)).status,
+		recording.interceptor
+	);
+	assert.ok('value' in recorded, 'the recorded run fails');
+	assert.equal(recorded.value, 200);
+	await recording.finish();
+
+	const cassette: Cassette = JSON.parse(await readFile(path.resolve(recording.file), 'utf-8'));
+	assert.deepEqual(cassette.interactions, []);
+});
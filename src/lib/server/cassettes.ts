@@ -0,0 +1,227 @@
+/**
+ * HTTP record/replay cassettes
+ *
+ * In record mode every outbound fetch made during a tool run is captured into
+ * `plugins/<pluginId>/cassettes/<toolId>/<hash>.json`, the hash being derived from the
+ * tool params. In replay mode those responses are served back without touching the
+ * network, and any request the cassette does not hold fails the run.
+ *
+ * Secret query params and env values are redacted from stored URLs and request bodies,
+ * and requests are matched on their redacted form, so a cassette recorded with a real
+ * key replays with a dummy one. Text response bodies only have the values of env vars
+ * named like secrets redacted, so plain settings echoed back (a city, a locale) stay.
+ */
+
+import { createHash } from 'node:crypto';
+import { mkdir, readFile, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+import { CassetteMismatchError } from './errors';
+import { redactText, redactUrl, type FetchInterceptor } from './execution-record';
+
+export type CassetteMode = 'live' | 'record' | 'replay';
+
+export const CASSETTE_MODES: CassetteMode[] = ['live', 'record', 'replay'];
+
+export interface CassetteInteraction {
+	request: {
+		method: string;
+		url: string;
+		body?: string;
+	};
+	response: {
+		status: number;
+		statusText: string;
+		headers: Record<string, string>;
+		body: string;
+		encoding: 'utf8' | 'base64';
+	};
+}
+
+export interface Cassette {
+	pluginId: string;
+	toolId: string;
+	params: Record<string, unknown>;
+	recordedAt: string;
+	interactions: CassetteInteraction[];
+}
+
+export interface UnmatchedRequest {
+	method: string;
+	url: string;
+}
+
+export interface CassetteSession {
+	mode: Exclude<CassetteMode, 'live'>;
+	/** Cassette path relative to the working directory */
+	file: string;
+	interceptor: FetchInterceptor;
+	/** Writes the cassette (record) or throws if any request went unmatched (replay) */
+	finish(): Promise<void>;
+}
+
+// Headers that are meaningless or harmful once the body is stored decoded
+const DROPPED_RESPONSE_HEADERS = new Set(['set-cookie', 'content-encoding', 'content-length', 'transfer-encoding']);
+
+const TEXT_CONTENT_TYPE = /^text\/|json|xml|javascript|x-www-form-urlencoded/i;
+
+function stableStringify(value: unknown): string {
+	if (Array.isArray(value)) return `[${value.map(stableStringify).join(',')}]`;
+	if (value && typeof value === 'object') {
+		const entries = Object.entries(value as Record<string, unknown>)
+			.filter(([, v]) => v !== undefined)
+			.sort(([a], [b]) => a.localeCompare(b));
+		return `{${entries.map(([k, v]) => `${JSON.stringify(k)}:${stableStringify(v)}`).join(',')}}`;
+	}
+	return JSON.stringify(value) ?? 'null';
+}
+
+/**
+ * Cassette file name for a set of params: same params, same cassette
+ */
+export function getCassetteHash(params: Record<string, unknown>): string {
+	return createHash('sha256').update(stableStringify(params)).digest('hex').slice(0, 16);
+}
+
+async function readRequestBody(request: Request): Promise<string | undefined> {
+	if (!request.body) return undefined;
+	return await request.clone().text();
+}
+
+/**
+ * Captures a live exchange; event streams are not recorded, as they only end when the
+ * server closes them
+ */
+async function toInteraction(
+	request: Request,
+	requestBody: string | undefined,
+	response: Response,
+	secrets: string[],
+	responseSecrets: string[]
+): Promise<CassetteInteraction | null> {
+	const contentType = response.headers.get('content-type') ?? '';
+	if (contentType.startsWith('text/event-stream')) return null;
+	const buffer = Buffer.from(await response.clone().arrayBuffer());
+	const isText = TEXT_CONTENT_TYPE.test(contentType);
+
+	const headers: Record<string, string> = {};
+	response.headers.forEach((value, name) => {
+		if (!DROPPED_RESPONSE_HEADERS.has(name)) headers[name] = value;
+	});
+
+	return {
+		request: {
+			method: request.method,
+			url: redactUrl(request.url, secrets),
+			body: requestBody !== undefined ? redactText(requestBody, secrets) : undefined
+		},
+		response: {
+			status: response.status,
+			statusText: response.statusText,
+			headers,
+			body: isText ? redactText(buffer.toString('utf-8'), responseSecrets) : buffer.toString('base64'),
+			encoding: isText ? 'utf8' : 'base64'
+		}
+	};
+}
+
+function toResponse(interaction: CassetteInteraction): Response {
+	const { status, statusText, headers, body, encoding } = interaction.response;
+	// Null-body statuses can't be given a body, even an empty one
+	const payload = [101, 204, 205, 304].includes(status) ? null : Buffer.from(body, encoding);
+	return new Response(payload, { status, statusText, headers });
+}
+
+/**
+ * Opens a record or replay session for one tool run
+ */
+export async function openCassette(options: {
+	mode: Exclude<CassetteMode, 'live'>;
+	pluginDir: string;
+	pluginId: string;
+	toolId: string;
+	params: Record<string, unknown>;
+	/** Every env value, redacted from URLs, request bodies and params before matching */
+	secrets: string[];
+	/** Values of the secret-named env vars, redacted from text response bodies */
+	responseSecrets: string[];
+}): Promise<CassetteSession> {
+	const { mode, pluginDir, pluginId, toolId, params, secrets, responseSecrets } = options;
+	const filePath = path.join(pluginDir, 'cassettes', toolId, `${getCassetteHash(params)}.json`);
+	const file = path.relative(process.cwd(), filePath).split(path.sep).join('/');
+
+	if (mode === 'record') {
+		const interactions: CassetteInteraction[] = [];
+		return {
+			mode,
+			file,
+			interceptor: async (request, fetchLive) => {
+				// Sending the request uses up its body, so it is read first
+				const requestBody = await readRequestBody(request);
+				const response = await fetchLive(request);
+				const interaction = await toInteraction(request, requestBody, response, secrets, responseSecrets);
+				if (interaction) {
+					interactions.push(interaction);
+				} else {
+					console.warn(`[cassettes] ${request.method} ${redactUrl(request.url, secrets)}: event streams are not recorded`);
+				}
+				return response;
+			},
+			finish: async () => {
+				const cassette: Cassette = {
+					pluginId,
+					toolId,
+					params: JSON.parse(redactText(JSON.stringify(params), secrets)),
+					recordedAt: new Date().toISOString(),
+					interactions
+				};
+				await mkdir(path.dirname(filePath), { recursive: true });
+				await writeFile(filePath, JSON.stringify(cassette, null, 2) + '\n');
+			}
+		};
+	}
+
+	let cassette: Cassette;
+	try {
+		cassette = JSON.parse(await readFile(filePath, 'utf-8'));
+	} catch (error) {
+		if ((error as NodeJS.ErrnoException).code !== 'ENOENT') throw error;
+		throw new CassetteMismatchError(`No cassette recorded for these params (${file})`, file, []);
+	}
+
+	const used = new Set<number>();
+	const unmatched: UnmatchedRequest[] = [];
+	return {
+		mode,
+		file,
+		interceptor: async (request) => {
+			const url = redactUrl(request.url, secrets);
+			const requestBody = await readRequestBody(request);
+			const body = requestBody !== undefined ? redactText(requestBody, secrets) : undefined;
+
+			// Same request made twice is answered by successive recordings
+			const index = cassette.interactions.findIndex(
+				(interaction, i) =>
+					!used.has(i) &&
+					interaction.request.method === request.method &&
+					interaction.request.url === url &&
+					interaction.request.body === body
+			);
+			if (index === -1) {
+				unmatched.push({ method: request.method, url });
+				throw new Error(`Cassette has no recorded response for ${request.method} ${url}`);
+			}
+			used.add(index);
+			return toResponse(cassette.interactions[index]);
+		},
+		finish: async () => {
+			// Plugins often swallow fetch errors, so a mismatch fails the run even if the tool returned
+			if (unmatched.length > 0) {
+				throw new CassetteMismatchError(
+					`${unmatched.length} request(s) not found in cassette ${file}`,
+					file,
+					unmatched
+				);
+			}
+		}
+	};
+}
@@ -0,0 +1,344 @@
+/**
+ * Chat simulation
+ *
+ * Runs an AI SDK multi-step loop over the selected plugins' tools, with the system
+ * prompt composed from their systemPromptInstructions, to see whether a model picks
+ * the right tool and passes sensible arguments. The model is either an
+ * OpenAI-compatible endpoint (OpenAI, a local Ollama/LM Studio/vLLM server, ...) or a
+ * scripted fake replaying canned turns, so the loop can be exercised offline.
+ *
+ * Tool calls go through executeTool, so validation, OAuth and cassettes behave as in
+ * the playground.
+ */
+
+import { createOpenAICompatible } from '@ai-sdk/openai-compatible';
+import type { LanguageModelV3 } from '@ai-sdk/provider';
+import { generateText, jsonSchema, stepCountIs, tool, type LanguageModel, type ModelMessage, type ToolSet } from 'ai';
+import type { Locale, ToolConfigValues, ToolContext } from '../../types';
+import type { CassetteMode } from './cassettes';
+import { describeToolError, PlaygroundError } from './errors';
+import { isRecord, optionalRecord, optionalString, parseCassetteMode, parseEnvOverrides } from './execute-request';
+import type { ExecutionRecord } from './execution-record';
+import { DEFAULT_LOCALE, parseToolContext } from './plugin-context';
+import { describeTool, executeTool, getPlugin, resolvePluginTools } from './plugin-loader';
+import { getProfileConfig } from './profiles';
+import { resolvePluginEnv } from './server-env';
+import { composeSystemPrompt, type SystemPromptPlugin, type SystemPromptSection } from './system-prompt';
+
+export const DEFAULT_MAX_STEPS = 5;
+
+const MAX_STEPS_LIMIT = 20;
+
+/**
+ * One model turn of a scripted fake: either tool calls or a final text answer
+ */
+export interface ScriptedTurn {
+	text?: string;
+	toolCalls?: { tool: string; input?: Record<string, unknown> }[];
+}
+
+export type ChatModelSettings =
+	| { provider: 'openai-compatible'; baseURL: string; modelId: string; apiKey?: string }
+	| { provider: 'scripted'; script: ScriptedTurn[] };
+
+export interface ChatPluginSettings {
+	pluginId: string;
+	/** Tools to register (default: every tool available with the resolved env) */
+	toolIds?: string[];
+	/** One-off overrides of the server env */
+	env?: Record<string, string>;
+	/** Merged over the profile's config of the plugin */
+	config?: ToolConfigValues;
+}
+
+export interface ChatSimulationOptions {
+	/** Conversation so far, ending with the new user message */
+	messages: ModelMessage[];
+	plugins: ChatPluginSettings[];
+	model: ChatModelSettings;
+	/** Prepended to the composed tool instructions */
+	systemPrompt?: string;
+	context?: Partial<ToolContext>;
+	cassette?: CassetteMode;
+	maxSteps?: number;
+	/** Named profile providing env values and config under the per-plugin settings */
+	profile?: string;
+}
+
+export interface ChatToolCall {
+	toolCallId: string;
+	/** Name the model used, `pluginId_toolId` */
+	toolName: string;
+	input: unknown;
+	output?: unknown;
+	error?: string;
+	execution?: ExecutionRecord;
+}
+
+export interface ChatStep {
+	text: string;
+	toolCalls: ChatToolCall[];
+	finishReason: string;
+}
+
+export interface ChatSimulationResult {
+	system: string;
+	sections: SystemPromptSection[];
+	/** Tool names registered with the model */
+	tools: string[];
+	/** Selected tools left out, e.g. because of missing env vars */
+	skippedTools: { name: string; reason: string }[];
+	steps: ChatStep[];
+	/** Assistant and tool messages to append to the conversation */
+	messages: ModelMessage[];
+}
+
+function createScriptedModel(script: ScriptedTurn[]): LanguageModelV3 {
+	return {
+		specificationVersion: 'v3',
+		provider: 'scripted',
+		modelId: 'scripted',
+		supportedUrls: {},
+		doGenerate: async ({ prompt }) => {
+			// Stateless across requests: the turn is picked from the assistant messages already in the prompt
+			const turn = script[prompt.filter((message) => message.role === 'assistant').length];
+			const toolCalls = turn?.toolCalls ?? [];
+			const text = turn ? (turn.text ?? '') : '(end of script)';
+
+			return {
+				content: [
+					...(text ? [{ type: 'text' as const, text }] : []),
+					...toolCalls.map((call, index) => ({
+						type: 'tool-call' as const,
+						toolCallId: `scripted-${prompt.length}-${index}`,
+						toolName: call.tool,
+						input: JSON.stringify(call.input ?? {})
+					}))
+				],
+				finishReason: { unified: toolCalls.length > 0 ? 'tool-calls' : 'stop', raw: undefined },
+				usage: {
+					inputTokens: { total: 0, noCache: 0, cacheRead: 0, cacheWrite: 0 },
+					outputTokens: { total: 0, text: 0, reasoning: 0 }
+				},
+				warnings: []
+			};
+		},
+		doStream: async () => {
+			throw new Error('The scripted model does not stream');
+		}
+	};
+}
+
+function createModel(settings: ChatModelSettings): LanguageModel {
+	if (settings.provider === 'scripted') return createScriptedModel(settings.script);
+
+	const provider = createOpenAICompatible({
+		name: 'playground',
+		baseURL: settings.baseURL,
+		apiKey: settings.apiKey || undefined
+	});
+	return provider.chatModel(settings.modelId);
+}
+
+const MESSAGE_ROLES = ['system', 'user', 'assistant', 'tool'];
+
+function parseMessages(value: unknown): ModelMessage[] {
+	if (!Array.isArray(value) || value.length === 0) {
+		throw new PlaygroundError('messages must be a non-empty array', 400);
+	}
+	if (!value.every((message) => isRecord(message) && MESSAGE_ROLES.includes(message.role as string))) {
+		throw new PlaygroundError(`each message must have a role (${MESSAGE_ROLES.join(', ')})`, 400);
+	}
+	return value as ModelMessage[];
+}
+
+function parseStringList(value: unknown, field: string): string[] | undefined {
+	if (value === undefined || value === null) return undefined;
+	if (!Array.isArray(value) || !value.every((item) => typeof item === 'string')) {
+		throw new PlaygroundError(`${field} must be an array of strings`, 400);
+	}
+	return value;
+}
+
+function parsePlugins(value: unknown): ChatPluginSettings[] {
+	if (!Array.isArray(value) || !value.every((item) => isRecord(item) && typeof item.pluginId === 'string')) {
+		throw new PlaygroundError('plugins must be an array of { pluginId, env, config }', 400);
+	}
+	return value.map((item: Record<string, unknown>, index) => ({
+		pluginId: item.pluginId as string,
+		toolIds: parseStringList(item.toolIds, `plugins[${index}].toolIds`),
+		env: parseEnvOverrides(item.env, `plugins[${index}].env`),
+		config: optionalRecord(item.config, `plugins[${index}].config`) as ToolConfigValues
+	}));
+}
+
+function parseScript(value: unknown): ScriptedTurn[] {
+	if (!Array.isArray(value)) throw new PlaygroundError('model.script must be an array of turns', 400);
+
+	return value.map((turn, index) => {
+		const field = `model.script[${index}]`;
+		if (!isRecord(turn)) throw new PlaygroundError(`${field} must be an object`, 400);
+		if (turn.toolCalls !== undefined && !Array.isArray(turn.toolCalls)) {
+			throw new PlaygroundError(`${field}.toolCalls must be an array`, 400);
+		}
+		return {
+			text: optionalString(turn.text, `${field}.text`),
+			toolCalls: turn.toolCalls?.map((call: unknown, callIndex: number) => {
+				if (!isRecord(call) || typeof call.tool !== 'string') {
+					throw new PlaygroundError(`${field}.toolCalls[${callIndex}] must be { tool, input }`, 400);
+				}
+				return { tool: call.tool, input: optionalRecord(call.input, `${field}.toolCalls[${callIndex}].input`) };
+			})
+		};
+	});
+}
+
+function parseModel(value: unknown): ChatModelSettings {
+	const model = isRecord(value) ? value : {};
+	if (model.provider === 'openai-compatible') {
+		const baseURL = optionalString(model.baseURL, 'model.baseURL');
+		const modelId = optionalString(model.modelId, 'model.modelId');
+		if (!baseURL || !modelId) {
+			throw new PlaygroundError('model.baseURL and model.modelId are required', 400);
+		}
+		return { provider: 'openai-compatible', baseURL, modelId, apiKey: optionalString(model.apiKey, 'model.apiKey') };
+	}
+	if (model.provider === 'scripted') {
+		return { provider: 'scripted', script: parseScript(model.script) };
+	}
+	throw new PlaygroundError('model.provider must be "openai-compatible" or "scripted"', 400);
+}
+
+/**
+ * Turns a request body into chat simulation options, throwing a 400 PlaygroundError on bad input
+ */
+export function parseChatRequest(body: unknown): ChatSimulationOptions {
+	if (!isRecord(body)) throw new PlaygroundError('Request body must be a JSON object', 400);
+
+	const { maxSteps } = body;
+	if (
+		maxSteps !== undefined &&
+		(typeof maxSteps !== 'number' || !Number.isInteger(maxSteps) || maxSteps < 1 || maxSteps > MAX_STEPS_LIMIT)
+	) {
+		throw new PlaygroundError(`maxSteps must be an integer between 1 and ${MAX_STEPS_LIMIT}`, 400);
+	}
+
+	let context: ChatSimulationOptions['context'];
+	try {
+		context = parseToolContext(body.context);
+	} catch (error) {
+		throw new PlaygroundError((error as Error).message, 400);
+	}
+
+	return {
+		messages: parseMessages(body.messages),
+		plugins: parsePlugins(body.plugins),
+		model: parseModel(body.model),
+		systemPrompt: optionalString(body.systemPrompt, 'systemPrompt'),
+		context,
+		cassette: parseCassetteMode(body.cassette),
+		maxSteps,
+		profile: optionalString(body.profile, 'profile')
+	};
+}
+
+export async function runChatSimulation(options: ChatSimulationOptions): Promise<ChatSimulationResult> {
+	const locale: Locale = options.context?.locale ?? DEFAULT_LOCALE;
+	const promptPlugins: SystemPromptPlugin[] = [];
+	const skippedTools: ChatSimulationResult['skippedTools'] = [];
+	const executions = new Map<string, ExecutionRecord>();
+	const tools: ToolSet = {};
+
+	for (const settings of options.plugins) {
+		const loaded = await getPlugin(settings.pluginId);
+		if (!loaded) throw new PlaygroundError(`Plugin not found: ${settings.pluginId}`, 404);
+
+		const env = await resolvePluginEnv(settings.pluginId, { profile: options.profile, overrides: settings.env });
+		const config = { ...(await getProfileConfig(options.profile, settings.pluginId)), ...settings.config };
+		const toolIds: string[] = [];
+
+		const plugin = await resolvePluginTools(loaded, config, env);
+		for (const toolDef of plugin.tools) {
+			if (settings.toolIds && !settings.toolIds.includes(toolDef.id)) continue;
+			const name = `${settings.pluginId}_${toolDef.id}`;
+			if (toolDef.isAvailable && !toolDef.isAvailable(env)) {
+				skippedTools.push({ name, reason: 'not available (missing env vars)' });
+				continue;
+			}
+
+			const description = await describeTool(settings.pluginId, toolDef.id, {
+				config,
+				env,
+				context: options.context
+			});
+			toolIds.push(toolDef.id);
+			tools[name] = tool({
+				description: description?.description,
+				inputSchema: jsonSchema<Record<string, unknown>>(description?.inputSchema ?? { type: 'object' }),
+				execute: async (params, { toolCallId }) => {
+					try {
+						const { result, execution } = await executeTool({
+							pluginId: settings.pluginId,
+							toolId: toolDef.id,
+							params,
+							env,
+							config,
+							context: options.context,
+							cassette: options.cassette,
+							profile: options.profile
+						});
+						executions.set(toolCallId, execution);
+						return result;
+					} catch (error) {
+						const execution = (error as PlaygroundError).details?.execution as ExecutionRecord | undefined;
+						if (execution) executions.set(toolCallId, execution);
+						// The model gets the message as the tool output, field errors included
+						throw new Error(describeToolError(error));
+					}
+				}
+			});
+		}
+
+		promptPlugins.push({ plugin, toolIds });
+	}
+
+	const { prompt: system, sections } = composeSystemPrompt(promptPlugins, locale, options.systemPrompt);
+
+	let result: Awaited<ReturnType<typeof generateText>>;
+	try {
+		result = await generateText({
+			model: createModel(options.model),
+			system: system || undefined,
+			messages: options.messages,
+			tools,
+			stopWhen: stepCountIs(options.maxSteps ?? DEFAULT_MAX_STEPS)
+		});
+	} catch (error) {
+		throw new PlaygroundError(`Model call failed: ${error instanceof Error ? error.message : String(error)}`, 502);
+	}
+
+	const steps = result.steps.map((step): ChatStep => {
+		const calls = new Map<string, ChatToolCall>();
+		for (const part of step.content) {
+			if (part.type === 'tool-call') {
+				calls.set(part.toolCallId, { toolCallId: part.toolCallId, toolName: part.toolName, input: part.input });
+			} else if (part.type === 'tool-result' || part.type === 'tool-error') {
+				const call = calls.get(part.toolCallId);
+				if (!call) continue;
+				if (part.type === 'tool-result') call.output = part.output;
+				else call.error = describeToolError(part.error);
+				call.execution = executions.get(part.toolCallId);
+			}
+		}
+		return { text: step.text, toolCalls: [...calls.values()], finishReason: step.finishReason };
+	});
+
+	return {
+		system,
+		sections,
+		tools: Object.keys(tools),
+		skippedTools,
+		steps,
+		messages: result.response.messages
+	};
+}
@@ -0,0 +1,46 @@
+/**
+ * Local JSON persistence for playground state (tokens, history, profiles...)
+ *
+ * Files live under PLAYGROUND_DATA_DIR (default: .playground/, git-ignored).
+ */
+
+import { mkdir, readFile, rename, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+
+export const DATA_DIR = path.resolve(process.env.PLAYGROUND_DATA_DIR || '.playground');
+
+// Serializes writes per file so concurrent read-modify-write cycles don't interleave
+const writeQueues = new Map<string, Promise<unknown>>();
+
+export async function readJsonFile<T>(name: string, fallback: T): Promise<T> {
+	try {
+		return JSON.parse(await readFile(path.join(DATA_DIR, name), 'utf-8')) as T;
+	} catch (error) {
+		if ((error as NodeJS.ErrnoException).code === 'ENOENT') return fallback;
+		throw error;
+	}
+}
+
+/**
+ * Read-modify-write a JSON file. The file is replaced atomically.
+ */
+export function updateJsonFile<T>(name: string, fallback: T, update: (data: T) => T | void): Promise<T> {
+	const filePath = path.join(DATA_DIR, name);
+	const previous = writeQueues.get(filePath) ?? Promise.resolve();
+
+	const next = previous.then(async () => {
+		const data = await readJsonFile(name, fallback);
+		const updated = update(data) ?? data;
+		await mkdir(path.dirname(filePath), { recursive: true });
+		const tmpPath = `${filePath}.${process.pid}.tmp`;
+		await writeFile(tmpPath, JSON.stringify(updated, null, 2));
+		await rename(tmpPath, filePath);
+		return updated;
+	});
+	writeQueues.set(filePath, next.catch(() => undefined));
+	return next;
+}
+
+export async function writeJsonFile(name: string, data: unknown): Promise<void> {
+	await updateJsonFile(name, null, () => data);
+}
@@ -0,0 +1,51 @@
+/**
+ * Minimal dotenv parser for playground env files
+ *
+ * Supports `KEY=value`, `export KEY=value`, `#` comments, and single or double
+ * quoted values (double quotes understand \n).
+ */
+
+import { readFile } from 'node:fs/promises';
+
+export function parseEnvFile(content: string): Record<string, string> {
+	const env: Record<string, string> = {};
+
+	for (const rawLine of content.split(/\r?\n/)) {
+		const line = rawLine.trim();
+		if (!line || line.startsWith('#')) continue;
+
+		const match = /^(?:export\s+)?([\w.-]+)\s*=\s*(.*)$/.exec(line);
+		if (!match) continue;
+
+		const [, key, rawValue] = match;
+		let value = rawValue;
+		const quote = value[0];
+		if ((quote === '"' || quote === "'") && value.lastIndexOf(quote) > 0) {
+			value = value.slice(1, value.lastIndexOf(quote));
+			if (quote === '"') value = value.replace(/\\n/g, '\n').replace(/\\"/g, '"');
+		} else {
+			// Unquoted values can carry a trailing comment
+			value = value.replace(/\s+#.*$/, '').trim();
+		}
+		env[key] = value;
+	}
+
+	return env;
+}
+
+/**
+ * Replaces `${NAME}` references in env values with the process env, so config
+ * files can point at secrets instead of holding them
+ */
+export function expandEnvReferences(env: Record<string, string>): Record<string, string> {
+	return Object.fromEntries(
+		Object.entries(env).map(([key, value]) => [
+			key,
+			String(value).replace(/\$\{(\w+)\}/g, (_match, name: string) => process.env[name] ?? '')
+		])
+	);
+}
+
+export async function readEnvFile(filePath: string): Promise<Record<string, string>> {
+	return parseEnvFile(await readFile(filePath, 'utf-8'));
+}
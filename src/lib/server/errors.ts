@@ -0,0 +1,91 @@
+/**
+ * Errors raised by the playground core
+ *
+ * API routes turn a PlaygroundError into a JSON response with its status and details.
+ */
+
+import type { UnmatchedRequest } from './cassettes';
+import type { ExecutionRecord } from './execution-record';
+import type { SchemaFieldError } from './json-schema';
+
+export class PlaygroundError extends Error {
+	readonly status: number;
+	readonly details: Record<string, unknown>;
+
+	constructor(message: string, status: number, details: Record<string, unknown> = {}) {
+		super(message);
+		this.name = new.target.name;
+		this.status = status;
+		this.details = details;
+	}
+}
+
+/**
+ * The tool declares `requiresPluginOAuth` and the user has no token for that plugin yet
+ */
+export class PluginOAuthRequiredError extends PlaygroundError {
+	constructor(toolId: string, oauthPluginId: string) {
+		super(`Tool ${toolId} requires connecting the "${oauthPluginId}" plugin account first`, 401, {
+			oauthRequired: oauthPluginId
+		});
+	}
+}
+
+/**
+ * The tool's isAvailable returned false for the given env
+ */
+export class ToolUnavailableError extends PlaygroundError {
+	constructor(toolId: string) {
+		super(`Tool ${toolId} is not available (missing required env vars)`, 400, { unavailable: true });
+	}
+}
+
+/**
+ * The configuration does not match the manifest's configSchema, or the plugin's
+ * validateConfig rejected it
+ */
+export class ConfigValidationError extends PlaygroundError {
+	constructor(message: string, configErrors: SchemaFieldError[] = []) {
+		super(message, 400, configErrors.length > 0 ? { configErrors } : {});
+	}
+}
+
+/**
+ * The tool params do not match the tool's input schema
+ */
+export class ToolInputValidationError extends PlaygroundError {
+	constructor(toolId: string, fieldErrors: SchemaFieldError[]) {
+		super(`Invalid input for tool ${toolId}`, 400, { fieldErrors });
+	}
+}
+
+/**
+ * The tool itself threw while running; carries what was recorded up to the failure
+ */
+export class ToolExecutionError extends PlaygroundError {
+	constructor(toolId: string, cause: unknown, execution: ExecutionRecord) {
+		super(cause instanceof Error ? cause.message : `Tool ${toolId} failed: ${String(cause)}`, 500, { execution });
+		this.cause = cause;
+	}
+}
+
+/**
+ * Replay mode hit a request the cassette does not hold, or there is no cassette at all
+ */
+export class CassetteMismatchError extends PlaygroundError {
+	constructor(message: string, cassette: string, unmatched: UnmatchedRequest[]) {
+		super(message, 409, { cassette, unmatched });
+	}
+}
+
+/**
+ * Error message for a model calling the tool, with one line per invalid field
+ */
+export function describeToolError(error: unknown): string {
+	const message = error instanceof Error ? error.message : String(error);
+	const fieldErrors =
+		error instanceof ToolInputValidationError || error instanceof ConfigValidationError
+			? ((error.details.fieldErrors ?? error.details.configErrors ?? []) as SchemaFieldError[])
+			: [];
+	return [message, ...fieldErrors.map((e) => `- ${e.field || '(input)'}: ${e.message}`)].join('\n');
+}
@@ -0,0 +1,109 @@
+/**
+ * Request body handling shared by /api/execute and /api/execute/stream, and the field
+ * guards the other JSON routes narrow their bodies with
+ */
+
+import type { ToolConfigValues } from '../../types';
+import { CASSETTE_MODES, type CassetteMode } from './cassettes';
+import { PlaygroundError } from './errors';
+import { parseToolContext } from './plugin-context';
+import type { ExecuteToolOptions } from './plugin-loader';
+import { getProfileConfig } from './profiles';
+import { resolvePluginEnv } from './server-env';
+
+/**
+ * Reads a JSON request body, throwing a 400 PlaygroundError when it does not parse
+ */
+export async function readJsonBody(request: Request): Promise<unknown> {
+	try {
+		return await request.json();
+	} catch {
+		throw new PlaygroundError('Request body is not valid JSON', 400);
+	}
+}
+
+export function isRecord(value: unknown): value is Record<string, unknown> {
+	return !!value && typeof value === 'object' && !Array.isArray(value);
+}
+
+export function optionalString(value: unknown, field: string): string | undefined {
+	if (value === undefined || value === null || value === '') return undefined;
+	if (typeof value !== 'string') throw new PlaygroundError(`${field} must be a string`, 400);
+	return value;
+}
+
+export function optionalRecord(value: unknown, field: string): Record<string, unknown> {
+	if (value === undefined || value === null) return {};
+	if (!isRecord(value)) throw new PlaygroundError(`${field} must be an object`, 400);
+	return value;
+}
+
+export function parseEnvOverrides(value: unknown, field = 'env'): Record<string, string> {
+	const env = optionalRecord(value, field);
+	if (Object.values(env).some((entry) => typeof entry !== 'string')) {
+		throw new PlaygroundError(`${field} must map variable names to strings`, 400);
+	}
+	return env as Record<string, string>;
+}
+
+export function parseCassetteMode(value: unknown): CassetteMode | undefined {
+	if (value === undefined || value === null) return undefined;
+	if (!CASSETTE_MODES.includes(value as CassetteMode)) {
+		throw new PlaygroundError(`cassette must be one of: ${CASSETTE_MODES.join(', ')}`, 400);
+	}
+	return value as CassetteMode;
+}
+
+/**
+ * Turns a request body into executeTool options, throwing a 400 PlaygroundError on bad input.
+ * The env is read on the server; `profile` picks a named profile, whose env and config for
+ * the plugin are used under the ones in the body. `env` in the body only holds one-off overrides.
+ */
+export async function parseExecuteRequest(body: unknown): Promise<ExecuteToolOptions> {
+	if (!isRecord(body)) throw new PlaygroundError('Request body must be a JSON object', 400);
+
+	const pluginId = optionalString(body.pluginId, 'pluginId');
+	const toolId = optionalString(body.toolId, 'toolId');
+	if (!pluginId || !toolId) {
+		throw new PlaygroundError('pluginId and toolId are required', 400);
+	}
+	const params = optionalRecord(body.params, 'params');
+	const config = optionalRecord(body.config, 'config') as ToolConfigValues;
+	const overrides = parseEnvOverrides(body.env);
+	const profile = optionalString(body.profile, 'profile');
+
+	const cassette = parseCassetteMode(body.cassette);
+
+	let context: ExecuteToolOptions['context'];
+	try {
+		context = parseToolContext(body.context);
+	} catch (error) {
+		throw new PlaygroundError((error as Error).message, 400);
+	}
+
+	return {
+		pluginId,
+		toolId,
+		params,
+		env: await resolvePluginEnv(pluginId, { profile, overrides }),
+		config: { ...(await getProfileConfig(profile, pluginId)), ...config },
+		context,
+		cassette,
+		profile
+	};
+}
+
+/**
+ * Maps an execution failure to the status and JSON body returned to the playground
+ */
+export function describeExecuteError(error: unknown): { status: number; body: Record<string, unknown> } {
+	if (error instanceof PlaygroundError) {
+		if (error.status >= 500) console.error('Error executing tool:', error.cause ?? error);
+		return { status: error.status, body: { success: false, error: error.message, ...error.details } };
+	}
+	console.error('Error executing tool:', error);
+	return {
+		status: 500,
+		body: { success: false, error: error instanceof Error ? error.message : 'Unknown error' }
+	};
+}
@@ -0,0 +1,171 @@
+/**
+ * Execution history
+ *
+ * Every run started from the playground is kept in .playground/history.json with its
+ * params, config, context, timing and result, so it can be re-run or compared with a
+ * later run. Env values are never stored: only the names of the variables that were
+ * set, and any secret env value (API key, token...) found in params, config or results
+ * is redacted.
+ */
+
+import { randomUUID } from 'node:crypto';
+import type { Locale, ToolConfigValues, ToolContext } from '../../types';
+import type { CassetteMode } from './cassettes';
+import { readJsonFile, updateJsonFile } from './data-store';
+import { PlaygroundError } from './errors';
+import { collectSecretEnvValues, redactText, redactValue, type ExecutionRecord } from './execution-record';
+import { DEFAULT_LOCALE } from './plugin-context';
+import { executeTool, type ExecuteToolOptions, type ToolExecution } from './plugin-loader';
+import { resolvePluginEnv, type ResolveEnvOptions } from './server-env';
+
+const HISTORY_FILE = 'history.json';
+
+// Oldest entries are dropped beyond this
+const MAX_ENTRIES = 500;
+
+export interface HistoryEntry {
+	id: string;
+	createdAt: string;
+	pluginId: string;
+	toolId: string;
+	params: Record<string, unknown>;
+	config: ToolConfigValues;
+	context: Partial<ToolContext>;
+	locale: Locale;
+	cassette?: CassetteMode;
+	/** Named profile the run used */
+	profile?: string;
+	/** Names of the env vars that had a value; the values are not stored */
+	envKeys: string[];
+	success: boolean;
+	result?: unknown;
+	error?: string;
+	/** Error details such as fieldErrors or unmatched cassette requests */
+	errorDetails?: Record<string, unknown>;
+	durationMs?: number;
+	execution?: ExecutionRecord;
+	/** Entry this run was re-run from */
+	rerunOf?: string;
+}
+
+export interface HistoryFilter {
+	pluginId?: string;
+	toolId?: string;
+	limit?: number;
+}
+
+async function addHistoryEntry(
+	options: ExecuteToolOptions,
+	outcome: { execution: ToolExecution } | { error: unknown },
+	rerunOf?: string
+): Promise<HistoryEntry> {
+	const secrets = collectSecretEnvValues(options.env);
+	const entry: HistoryEntry = {
+		id: randomUUID(),
+		createdAt: new Date().toISOString(),
+		pluginId: options.pluginId,
+		toolId: options.toolId,
+		params: redactValue(options.params, secrets),
+		config: redactValue(options.config, secrets),
+		context: redactValue(options.context ?? {}, secrets),
+		locale: options.context?.locale ?? DEFAULT_LOCALE,
+		cassette: options.cassette,
+		profile: options.profile,
+		envKeys: Object.keys(options.env).filter((name) => options.env[name]),
+		success: 'execution' in outcome,
+		rerunOf
+	};
+
+	if ('execution' in outcome) {
+		entry.result = redactValue(outcome.execution.result, secrets);
+		entry.execution = outcome.execution.execution;
+		entry.durationMs = outcome.execution.execution.durationMs;
+	} else {
+		const error = outcome.error;
+		entry.error = redactText(error instanceof Error ? error.message : String(error), secrets);
+		if (error instanceof PlaygroundError) {
+			const { execution, ...details } = error.details as { execution?: ExecutionRecord };
+			entry.errorDetails = redactValue(details, secrets);
+			entry.execution = execution;
+			entry.durationMs = execution?.durationMs;
+		}
+	}
+
+	await updateJsonFile<HistoryEntry[]>(HISTORY_FILE, [], (entries) => [entry, ...entries].slice(0, MAX_ENTRIES));
+	return entry;
+}
+
+/**
+ * Runs executeTool and stores the run, successful or not, in the history
+ */
+export async function executeToolWithHistory(
+	options: ExecuteToolOptions,
+	rerunOf?: string
+): Promise<ToolExecution & { historyId: string }> {
+	let execution: ToolExecution;
+	try {
+		execution = await executeTool(options);
+	} catch (error) {
+		await addHistoryEntry(options, { error }, rerunOf);
+		throw error;
+	}
+	const entry = await addHistoryEntry(options, { execution }, rerunOf);
+	return { ...execution, historyId: entry.id };
+}
+
+/**
+ * Newest entries first
+ */
+export async function listHistory(filter: HistoryFilter = {}): Promise<HistoryEntry[]> {
+	const entries = await readJsonFile<HistoryEntry[]>(HISTORY_FILE, []);
+	return entries
+		.filter((e) => !filter.pluginId || e.pluginId === filter.pluginId)
+		.filter((e) => !filter.toolId || e.toolId === filter.toolId)
+		.slice(0, filter.limit ?? MAX_ENTRIES);
+}
+
+export async function getHistoryEntry(id: string): Promise<HistoryEntry | undefined> {
+	return (await readJsonFile<HistoryEntry[]>(HISTORY_FILE, [])).find((e) => e.id === id);
+}
+
+/**
+ * Deletes one entry, the entries of a plugin, or every entry when `all` is set
+ */
+export async function deleteHistory(filter: { id?: string; pluginId?: string; all?: boolean }): Promise<void> {
+	await updateJsonFile<HistoryEntry[]>(HISTORY_FILE, [], (entries) =>
+		entries.filter((e) => {
+			if (filter.id) return e.id !== filter.id;
+			if (filter.pluginId) return e.pluginId !== filter.pluginId;
+			return !filter.all;
+		})
+	);
+}
+
+/**
+ * Runs an entry again with its stored params, config and context. Env values were not
+ * stored, so they are read from the server env again, with the entry's profile unless
+ * another one is given.
+ */
+export async function rerunHistoryEntry(
+	id: string,
+	envOptions: ResolveEnvOptions = {}
+): Promise<ToolExecution & { historyId: string }> {
+	const entry = await getHistoryEntry(id);
+	if (!entry) throw new PlaygroundError(`History entry not found: ${id}`, 404);
+	const profile = envOptions.profile ?? entry.profile;
+	const env = await resolvePluginEnv(entry.pluginId, { ...envOptions, profile });
+
+	return executeToolWithHistory(
+		{
+			pluginId: entry.pluginId,
+			toolId: entry.toolId,
+			params: entry.params,
+			config: entry.config,
+			context: entry.context,
+			cassette: entry.cassette,
+			profile: profile || undefined,
+			env
+		},
+		entry.id
+	);
+}
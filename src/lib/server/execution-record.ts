@@ -0,0 +1,268 @@
+/**
+ * Per-execution telemetry
+ *
+ * A tool run is wrapped in an AsyncLocalStorage scope; a global fetch wrapper
+ * attributes every outbound request made inside that scope to the run, so plugins
+ * need no changes. Secrets (env values and key/token-like query params) are
+ * redacted from recorded URLs.
+ */
+
+import { AsyncLocalStorage } from 'node:async_hooks';
+import type { SchemaFieldError } from './json-schema';
+import type { LogEntry } from './plugin-context';
+
+export interface HttpCall {
+	method: string;
+	url: string;
+	status?: number;
+	/** Offset from the start of the run */
+	startMs: number;
+	durationMs: number;
+	/** Response body size, from content-length or counted when the tool read the body to the end */
+	bytes?: number;
+	error?: string;
+}
+
+export interface RecordedLogEntry extends LogEntry {
+	offsetMs: number;
+}
+
+export interface ExecutionRecord {
+	startedAt: string;
+	/** Named profile the run used */
+	profile?: string;
+	/** Set when HTTP calls were recorded to or replayed from a cassette */
+	cassette?: { mode: 'record' | 'replay'; file: string };
+	durationMs: number;
+	httpCalls: HttpCall[];
+	logs: RecordedLogEntry[];
+	resultBytes: number;
+	/** Rough LLM token count of the serialized result (chars / 4) */
+	resultTokens: number;
+	/** Where the result breaks the tool's declared outputSchema; the run itself still succeeds */
+	outputErrors?: SchemaFieldError[];
+}
+
+/**
+ * Answers a fetch made during a run in place of the network, e.g. from a cassette.
+ * `fetchLive` performs the real request.
+ */
+export type FetchInterceptor = (request: Request, fetchLive: typeof fetch) => Promise<Response>;
+
+interface Recorder {
+	start: number;
+	secrets: string[];
+	interceptor?: FetchInterceptor;
+	httpCalls: HttpCall[];
+	logs: RecordedLogEntry[];
+	/** Set once the record is built; body sizes counted later are dropped */
+	finished: boolean;
+}
+
+const SECRET_PARAM_PATTERN = /key|token|secret|password|auth|signature|sig$/i;
+
+const REDACTED = '[REDACTED]';
+
+// Shared across dev-server module reloads, since the fetch wrapper is only installed once
+const globalState = globalThis as typeof globalThis & {
+	__executionStorage?: AsyncLocalStorage<Recorder>;
+	__fetchRecorderInstalled?: boolean;
+};
+
+const storage = (globalState.__executionStorage ??= new AsyncLocalStorage<Recorder>());
+
+/**
+ * Rough LLM token count of a text (chars / 4)
+ */
+export function estimateTokens(text: string): number {
+	return Math.ceil(text.length / 4);
+}
+
+/**
+ * Env values to redact; short values would redact unrelated parts of URLs
+ */
+export function collectSecrets(env: Record<string, string | undefined>): string[] {
+	return Object.values(env).filter((value): value is string => !!value && value.length >= 4);
+}
+
+/**
+ * Values of the env vars named like secrets (API keys, tokens, passwords), to hide from
+ * results and logs without also hiding plain settings such as a default city
+ */
+export function collectSecretEnvValues(env: Record<string, string | undefined>): string[] {
+	return collectSecrets(Object.fromEntries(Object.entries(env).filter(([name]) => SECRET_PARAM_PATTERN.test(name))));
+}
+
+/**
+ * Hides every known secret value in a piece of text
+ */
+export function redactText(text: string, secrets: string[]): string {
+	let redacted = text;
+	for (const secret of secrets) {
+		redacted = redacted.replaceAll(secret, REDACTED).replaceAll(encodeURIComponent(secret), REDACTED);
+	}
+	return redacted;
+}
+
+/**
+ * Hides every known secret value in a JSON-serializable value; the value itself is returned
+ * when it holds none, or can't be serialized
+ */
+export function redactValue<T>(value: T, secrets: string[]): T {
+	if (value === undefined || secrets.length === 0) return value;
+	let serialized: string | undefined;
+	try {
+		serialized = JSON.stringify(value);
+	} catch {
+		return value;
+	}
+	if (serialized === undefined) return value;
+	const redacted = redactText(serialized, secrets);
+	return redacted === serialized ? value : JSON.parse(redacted);
+}
+
+/**
+ * Hides secret query params and any known secret value in a URL
+ */
+export function redactUrl(rawUrl: string, secrets: string[] = []): string {
+	let redacted = rawUrl;
+	try {
+		const url = new URL(rawUrl);
+		for (const name of [...url.searchParams.keys()]) {
+			if (SECRET_PARAM_PATTERN.test(name)) url.searchParams.set(name, REDACTED);
+		}
+		if (url.password) url.password = REDACTED;
+		redacted = url.toString().replaceAll(encodeURIComponent(REDACTED), REDACTED);
+	} catch {
+		// Not an absolute URL, only the secret values can be hidden
+	}
+	return redactText(redacted, secrets);
+}
+
+function requestInfo(input: RequestInfo | URL, init?: RequestInit): { method: string; url: string } {
+	const url = input instanceof Request ? input.url : String(input);
+	const method = init?.method ?? (input instanceof Request ? input.method : 'GET');
+	return { method: method.toUpperCase(), url };
+}
+
+/**
+ * Counts the body bytes as the tool reads them, rather than reading the body on its behalf:
+ * a body it never reads, or a stream that stays open (SSE, MCP), can't hold the run up.
+ * The size stays unknown when the body was not read to the end before the run finished.
+ */
+function measureBody(response: Response, call: HttpCall, recorder: Recorder): Response {
+	const contentLength = response.headers.get('content-length');
+	if (contentLength !== null) {
+		call.bytes = Number(contentLength);
+		return response;
+	}
+	// An event stream only ends when the server closes it
+	if (!response.body || response.headers.get('content-type')?.startsWith('text/event-stream')) return response;
+
+	let bytes = 0;
+	const body = response.body.pipeThrough(
+		new TransformStream<Uint8Array, Uint8Array>({
+			transform(chunk, controller) {
+				bytes += chunk.byteLength;
+				controller.enqueue(chunk);
+			},
+			flush() {
+				if (!recorder.finished) call.bytes = bytes;
+			}
+		})
+	);
+	const measured = new Response(body, {
+		status: response.status,
+		statusText: response.statusText,
+		headers: response.headers
+	});
+	// Not settable through the constructor
+	Object.defineProperties(measured, {
+		url: { value: response.url },
+		redirected: { value: response.redirected }
+	});
+	return measured;
+}
+
+/**
+ * Wraps the global fetch once per process so calls made during a recorded run are captured
+ */
+function installFetchRecorder() {
+	if (globalState.__fetchRecorderInstalled) return;
+	globalState.__fetchRecorderInstalled = true;
+
+	const originalFetch = globalThis.fetch;
+	globalThis.fetch = async (input: RequestInfo | URL, init?: RequestInit): Promise<Response> => {
+		const recorder = storage.getStore();
+		if (!recorder) return originalFetch(input, init);
+
+		const { method, url } = requestInfo(input, init);
+		const started = performance.now();
+		const call: HttpCall = {
+			method,
+			url: redactUrl(url, recorder.secrets),
+			startMs: Math.round(started - recorder.start),
+			durationMs: 0
+		};
+		recorder.httpCalls.push(call);
+
+		try {
+			const response = recorder.interceptor
+				? await recorder.interceptor(new Request(input, init), originalFetch)
+				: await originalFetch(input, init);
+			call.status = response.status;
+			call.durationMs = Math.round(performance.now() - started);
+			return measureBody(response, call, recorder);
+		} catch (error) {
+			call.durationMs = Math.round(performance.now() - started);
+			call.error = error instanceof Error ? error.message : String(error);
+			throw error;
+		}
+	};
+}
+
+/**
+ * Runs `fn` while recording its HTTP calls, and returns them with the wall time.
+ * `addLog` feeds logger calls into the same record.
+ */
+export async function recordExecution<T>(
+	secrets: string[],
+	fn: (addLog: (entry: LogEntry) => void) => Promise<T>,
+	interceptor?: FetchInterceptor
+): Promise<{ value: T; record: ExecutionRecord } | { error: unknown; record: ExecutionRecord }> {
+	installFetchRecorder();
+
+	const recorder: Recorder = {
+		start: performance.now(),
+		secrets,
+		interceptor,
+		httpCalls: [],
+		logs: [],
+		finished: false
+	};
+	const startedAt = new Date().toISOString();
+	const addLog = (entry: LogEntry) => {
+		recorder.logs.push({ ...entry, offsetMs: Math.round(performance.now() - recorder.start) });
+	};
+
+	const finish = (result: unknown): ExecutionRecord => {
+		const durationMs = Math.round(performance.now() - recorder.start);
+		recorder.finished = true;
+		const serialized = result === undefined ? '' : (JSON.stringify(result) ?? '');
+		return {
+			startedAt,
+			durationMs,
+			httpCalls: recorder.httpCalls,
+			logs: recorder.logs,
+			resultBytes: Buffer.byteLength(serialized),
+			resultTokens: estimateTokens(serialized)
+		};
+	};
+
+	try {
+		const value = await storage.run(recorder, () => fn(addLog));
+		return { value, record: finish(value) };
+	} catch (error) {
+		return { error, record: finish(undefined) };
+	}
+}
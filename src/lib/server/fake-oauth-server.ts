@@ -0,0 +1,212 @@
+/**
+ * Fake OAuth 2.0 authorization server
+ *
+ * Lets the plugin OAuth flow be tested offline. Started with the dev server on
+ * FAKE_OAUTH_PORT (default 4555, set to 0 to disable; read from the process env or `.env`);
+ * a production build only starts it when FAKE_OAUTH_PORT is set. Everything is kept in memory.
+ *
+ *   GET  /authorize  consent page (approve/deny), redirects to redirect_uri with code & state
+ *   POST /token      grant_type=authorization_code | refresh_token
+ *   GET  /userinfo   profile of the bearer token's user
+ */
+
+import { createServer, type IncomingMessage, type Server, type ServerResponse } from 'node:http';
+import { randomBytes } from 'node:crypto';
+
+const DEFAULT_PORT = 4555;
+
+// Short default lifetime so token refresh gets exercised
+const DEFAULT_TOKEN_TTL_SECONDS = 120;
+
+interface Grant {
+	clientId: string;
+	scope: string;
+	user: { sub: string; name: string; email: string };
+}
+
+interface AuthorizationCode extends Grant {
+	redirectUri: string;
+	expiresAt: number;
+}
+
+interface AccessToken extends Grant {
+	expiresAt: number;
+}
+
+const codes = new Map<string, AuthorizationCode>();
+const accessTokens = new Map<string, AccessToken>();
+const refreshTokens = new Map<string, Grant>();
+
+const FAKE_USER = { sub: 'fake-user-1', name: 'Fake User', email: 'fake.user@example.com' };
+
+function randomToken(prefix: string): string {
+	return `${prefix}_${randomBytes(16).toString('hex')}`;
+}
+
+function escapeHtml(text: string): string {
+	return text.replace(/[&<>"']/g, (c) => `&#${c.charCodeAt(0)};`);
+}
+
+function sendJson(res: ServerResponse, status: number, body: unknown) {
+	res.writeHead(status, { 'Content-Type': 'application/json', 'Cache-Control': 'no-store' });
+	res.end(JSON.stringify(body));
+}
+
+function redirect(res: ServerResponse, location: string) {
+	res.writeHead(302, { Location: location });
+	res.end();
+}
+
+async function readForm(req: IncomingMessage): Promise<URLSearchParams> {
+	const chunks: Buffer[] = [];
+	for await (const chunk of req) chunks.push(chunk as Buffer);
+	const body = Buffer.concat(chunks).toString('utf-8');
+
+	if (req.headers['content-type']?.includes('application/json')) {
+		return new URLSearchParams(JSON.parse(body || '{}'));
+	}
+	return new URLSearchParams(body);
+}
+
+function issueTokens(grant: Grant, ttlSeconds: number) {
+	const accessToken = randomToken('at');
+	const refreshToken = randomToken('rt');
+	accessTokens.set(accessToken, { ...grant, expiresAt: Date.now() + ttlSeconds * 1000 });
+	refreshTokens.set(refreshToken, grant);
+
+	return {
+		access_token: accessToken,
+		token_type: 'Bearer',
+		expires_in: ttlSeconds,
+		refresh_token: refreshToken,
+		scope: grant.scope
+	};
+}
+
+function handleAuthorize(url: URL, res: ServerResponse) {
+	const redirectUri = url.searchParams.get('redirect_uri');
+	const state = url.searchParams.get('state') ?? '';
+	const clientId = url.searchParams.get('client_id') ?? '';
+	const scope = url.searchParams.get('scope') ?? 'profile';
+
+	if (!redirectUri) {
+		sendJson(res, 400, { error: 'invalid_request', error_description: 'redirect_uri is required' });
+		return;
+	}
+
+	const decision = url.searchParams.get('decision');
+	if (decision === 'deny') {
+		const target = new URL(redirectUri);
+		target.searchParams.set('error', 'access_denied');
+		target.searchParams.set('state', state);
+		redirect(res, target.toString());
+		return;
+	}
+	if (decision === 'approve') {
+		const code = randomToken('code');
+		codes.set(code, { clientId, scope, redirectUri, user: FAKE_USER, expiresAt: Date.now() + 60_000 });
+		const target = new URL(redirectUri);
+		target.searchParams.set('code', code);
+		target.searchParams.set('state', state);
+		redirect(res, target.toString());
+		return;
+	}
+
+	const approveUrl = new URL(url);
+	approveUrl.searchParams.set('decision', 'approve');
+	const denyUrl = new URL(url);
+	denyUrl.searchParams.set('decision', 'deny');
+
+	res.writeHead(200, { 'Content-Type': 'text/html; charset=utf-8' });
+	res.end(`<!doctype html>
+<html>
+	<body style="font-family: sans-serif; padding: 2rem">
+		<h1>Fake OAuth server</h1>
+		<p><strong>${escapeHtml(clientId || 'A plugin')}</strong> wants access to <code>${escapeHtml(scope)}</code>
+		as ${escapeHtml(FAKE_USER.name)} (${escapeHtml(FAKE_USER.email)}).</p>
+		<p><a href="${escapeHtml(approveUrl.toString())}">Approve</a> &middot; <a href="${escapeHtml(denyUrl.toString())}">Deny</a></p>
+	</body>
+</html>`);
+}
+
+async function handleToken(req: IncomingMessage, res: ServerResponse, ttlSeconds: number) {
+	const form = await readForm(req);
+	const grantType = form.get('grant_type');
+
+	if (grantType === 'authorization_code') {
+		const code = codes.get(form.get('code') ?? '');
+		codes.delete(form.get('code') ?? '');
+		if (!code || code.expiresAt < Date.now() || code.redirectUri !== form.get('redirect_uri')) {
+			sendJson(res, 400, { error: 'invalid_grant', error_description: 'Invalid or expired authorization code' });
+			return;
+		}
+		sendJson(res, 200, issueTokens(code, ttlSeconds));
+		return;
+	}
+
+	if (grantType === 'refresh_token') {
+		const refreshToken = form.get('refresh_token') ?? '';
+		const grant = refreshTokens.get(refreshToken);
+		if (!grant) {
+			sendJson(res, 400, { error: 'invalid_grant', error_description: 'Unknown refresh token' });
+			return;
+		}
+		// Rotate the refresh token, like most real providers
+		refreshTokens.delete(refreshToken);
+		sendJson(res, 200, issueTokens(grant, ttlSeconds));
+		return;
+	}
+
+	sendJson(res, 400, { error: 'unsupported_grant_type' });
+}
+
+function handleUserinfo(req: IncomingMessage, res: ServerResponse) {
+	const token = req.headers.authorization?.replace(/^Bearer\s+/i, '') ?? '';
+	const accessToken = accessTokens.get(token);
+
+	if (!accessToken || accessToken.expiresAt < Date.now()) {
+		sendJson(res, 401, { error: 'invalid_token', error_description: 'Access token is missing or expired' });
+		return;
+	}
+	sendJson(res, 200, { ...accessToken.user, scope: accessToken.scope });
+}
+
+export function createFakeOAuthServer(tokenTtlSeconds = DEFAULT_TOKEN_TTL_SECONDS): Server {
+	return createServer((req, res) => {
+		const url = new URL(req.url ?? '/', `http://${req.headers.host ?? 'localhost'}`);
+
+		if (req.method === 'GET' && url.pathname === '/authorize') {
+			handleAuthorize(url, res);
+		} else if (req.method === 'POST' && url.pathname === '/token') {
+			handleToken(req, res, tokenTtlSeconds).catch((error) => {
+				sendJson(res, 400, { error: 'invalid_request', error_description: String(error) });
+			});
+		} else if (req.method === 'GET' && url.pathname === '/userinfo') {
+			handleUserinfo(req, res);
+		} else {
+			sendJson(res, 404, { error: 'not_found' });
+		}
+	});
+}
+
+// Survives dev-server module reloads, so the port is only bound once
+const globalState = globalThis as typeof globalThis & { __fakeOAuthServer?: Server };
+
+/**
+ * Starts the fake server once per process (no-op when FAKE_OAUTH_PORT=0). Settings are read from
+ * `env`, which holds `.env` as well as the process env (see loadPlaygroundEnv)
+ */
+export function startFakeOAuthServer(env: Record<string, string | undefined>) {
+	const port = env.FAKE_OAUTH_PORT !== undefined ? Number(env.FAKE_OAUTH_PORT) : DEFAULT_PORT;
+	if (!port || globalState.__fakeOAuthServer) return;
+
+	const server = createFakeOAuthServer(Number(env.FAKE_OAUTH_TOKEN_TTL) || DEFAULT_TOKEN_TTL_SECONDS);
+	server.on('error', (error) => {
+		console.warn(`[fake-oauth] Could not listen on port ${port}: ${error.message}`);
+	});
+	server.listen(port, 'localhost', () => {
+		console.log(`[fake-oauth] Fake OAuth server listening on http://localhost:${port}`);
+	});
+	server.unref();
+	globalState.__fakeOAuthServer = server;
+}
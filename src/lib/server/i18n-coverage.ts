@@ -0,0 +1,63 @@
+/**
+ * i18n coverage report
+ *
+ * Lists, per plugin and playground locale, which user-facing messages (the `MESSAGES`
+ * exported by the plugin module) and which tools' systemPromptInstructions have a translation.
+ * A locale without one falls back at runtime (usually to French), which is easy to miss
+ * when testing in a single locale. Plugins keep their catalog next to the tool that uses it
+ * and re-export it from their index, e.g. `export { MESSAGES } from './tools/fetch-url'`.
+ */
+
+import type { Locale, PluginExport } from '../../types';
+import { LOCALES } from './plugin-context';
+import { loadPlugins, type MessageCatalog } from './plugin-loader';
+
+export interface LocaleCoverage {
+	locale: Locale;
+	/** Listed in the manifest's i18n.supportedLocales */
+	declared: boolean;
+	/** Message keys that other locales have and this one lacks */
+	missingMessages: string[];
+	/** Tools whose per-locale systemPromptInstructions have no entry for this locale */
+	missingInstructions: string[];
+}
+
+export interface PluginI18nCoverage {
+	pluginId: string;
+	name: string;
+	defaultLocale?: string;
+	/** Every key found in the catalog, in any locale; empty when the module exports no `MESSAGES` */
+	messageKeys: string[];
+	/** Tools whose systemPromptInstructions is a plain string, i.e. the same text in every locale */
+	untranslatedInstructions: string[];
+	toolIds: string[];
+	locales: LocaleCoverage[];
+}
+
+function coverPlugin(plugin: PluginExport, messages: MessageCatalog = {}): PluginI18nCoverage {
+	const { manifest } = plugin;
+	const messageKeys = [...new Set(Object.values(messages).flatMap((catalog) => Object.keys(catalog)))].sort();
+	const tools = manifest.tools;
+
+	return {
+		pluginId: manifest.id,
+		name: manifest.name,
+		defaultLocale: manifest.i18n?.defaultLocale,
+		messageKeys,
+		untranslatedInstructions: tools.filter((t) => typeof t.systemPromptInstructions === 'string').map((t) => t.id),
+		toolIds: tools.map((t) => t.id),
+		locales: LOCALES.map((locale) => ({
+			locale,
+			declared: manifest.i18n?.supportedLocales.includes(locale) ?? false,
+			missingMessages: messageKeys.filter((key) => messages[locale]?.[key] === undefined),
+			missingInstructions: tools
+				.filter((t) => typeof t.systemPromptInstructions === 'object' && !t.systemPromptInstructions?.[locale])
+				.map((t) => t.id)
+		}))
+	};
+}
+
+export async function getI18nCoverage(): Promise<PluginI18nCoverage[]> {
+	const { plugins, messages } = await loadPlugins();
+	return plugins.map((plugin) => coverPlugin(plugin, messages.get(plugin.manifest.id)));
+}
@@ -0,0 +1,172 @@
+/**
+ * Minimal JSON Schema validator
+ *
+ * Covers the subset of JSON Schema used by plugin tool schemas: type, enum, const,
+ * properties/required/additionalProperties, items, string/number/array bounds,
+ * pattern and allOf/anyOf/oneOf. Unknown keywords are ignored.
+ */
+
+export type JsonSchemaType = 'string' | 'number' | 'integer' | 'boolean' | 'object' | 'array' | 'null';
+
+/**
+ * The keywords this validator understands
+ */
+export interface JsonSchema {
+	type?: JsonSchemaType | JsonSchemaType[];
+	description?: string;
+	default?: unknown;
+	enum?: unknown[];
+	const?: unknown;
+	minimum?: number;
+	maximum?: number;
+	exclusiveMinimum?: number;
+	exclusiveMaximum?: number;
+	multipleOf?: number;
+	minLength?: number;
+	maxLength?: number;
+	pattern?: string;
+	items?: JsonSchemaDefinition | JsonSchemaDefinition[];
+	minItems?: number;
+	maxItems?: number;
+	properties?: Record<string, JsonSchemaDefinition>;
+	required?: string[];
+	additionalProperties?: JsonSchemaDefinition;
+	allOf?: JsonSchemaDefinition[];
+	anyOf?: JsonSchemaDefinition[];
+	oneOf?: JsonSchemaDefinition[];
+}
+
+export type JsonSchemaDefinition = JsonSchema | boolean;
+
+export interface SchemaFieldError {
+	/** Dotted path of the offending value ('' for the root), e.g. `sources[0].metadata.type` */
+	field: string;
+	message: string;
+}
+
+function typeOf(value: unknown): JsonSchemaType {
+	if (value === null) return 'null';
+	if (Array.isArray(value)) return 'array';
+	if (typeof value === 'number') return Number.isInteger(value) ? 'integer' : 'number';
+	return typeof value as JsonSchemaType;
+}
+
+function matchesType(value: unknown, type: JsonSchemaType): boolean {
+	const actual = typeOf(value);
+	return actual === type || (type === 'number' && actual === 'integer');
+}
+
+function joinPath(parent: string, key: string | number): string {
+	if (typeof key === 'number') return `${parent}[${key}]`;
+	return parent ? `${parent}.${key}` : key;
+}
+
+function isEqual(a: unknown, b: unknown): boolean {
+	return JSON.stringify(a) === JSON.stringify(b);
+}
+
+function validateNode(definition: JsonSchemaDefinition, value: unknown, field: string, errors: SchemaFieldError[]) {
+	if (definition === true) return;
+	if (definition === false) {
+		errors.push({ field, message: 'is not allowed' });
+		return;
+	}
+	const schema = definition;
+
+	if (schema.type !== undefined) {
+		const types = Array.isArray(schema.type) ? schema.type : [schema.type];
+		if (!types.some((type) => matchesType(value, type))) {
+			errors.push({ field, message: `must be of type ${types.join(' or ')}, got ${typeOf(value)}` });
+			return;
+		}
+	}
+
+	if (schema.const !== undefined && !isEqual(value, schema.const)) {
+		errors.push({ field, message: `must be ${JSON.stringify(schema.const)}` });
+	}
+	if (schema.enum && !schema.enum.some((option) => isEqual(option, value))) {
+		errors.push({ field, message: `must be one of: ${schema.enum.map((o) => JSON.stringify(o)).join(', ')}` });
+	}
+
+	if (typeof value === 'number') {
+		if (schema.minimum !== undefined && value < schema.minimum) {
+			errors.push({ field, message: `must be >= ${schema.minimum}` });
+		}
+		if (schema.maximum !== undefined && value > schema.maximum) {
+			errors.push({ field, message: `must be <= ${schema.maximum}` });
+		}
+		if (schema.exclusiveMinimum !== undefined && value <= schema.exclusiveMinimum) {
+			errors.push({ field, message: `must be > ${schema.exclusiveMinimum}` });
+		}
+		if (schema.exclusiveMaximum !== undefined && value >= schema.exclusiveMaximum) {
+			errors.push({ field, message: `must be < ${schema.exclusiveMaximum}` });
+		}
+		if (schema.multipleOf !== undefined && !Number.isInteger(value / schema.multipleOf)) {
+			errors.push({ field, message: `must be a multiple of ${schema.multipleOf}` });
+		}
+	}
+
+	if (typeof value === 'string') {
+		if (schema.minLength !== undefined && value.length < schema.minLength) {
+			errors.push({ field, message: `must be at least ${schema.minLength} characters` });
+		}
+		if (schema.maxLength !== undefined && value.length > schema.maxLength) {
+			errors.push({ field, message: `must be at most ${schema.maxLength} characters` });
+		}
+		if (schema.pattern !== undefined && !new RegExp(schema.pattern, 'u').test(value)) {
+			errors.push({ field, message: `must match pattern ${schema.pattern}` });
+		}
+	}
+
+	if (Array.isArray(value)) {
+		if (schema.minItems !== undefined && value.length < schema.minItems) {
+			errors.push({ field, message: `must have at least ${schema.minItems} items` });
+		}
+		if (schema.maxItems !== undefined && value.length > schema.maxItems) {
+			errors.push({ field, message: `must have at most ${schema.maxItems} items` });
+		}
+		if (schema.items !== undefined) {
+			value.forEach((item, index) => {
+				const itemSchema = Array.isArray(schema.items) ? schema.items[index] : schema.items;
+				if (itemSchema !== undefined) validateNode(itemSchema, item, joinPath(field, index), errors);
+			});
+		}
+	}
+
+	if (typeOf(value) === 'object') {
+		const object = value as Record<string, unknown>;
+		for (const key of schema.required ?? []) {
+			if (object[key] === undefined) {
+				errors.push({ field: joinPath(field, key), message: 'is required' });
+			}
+		}
+		for (const [key, propertyValue] of Object.entries(object)) {
+			if (propertyValue === undefined) continue;
+			const propertySchema = schema.properties?.[key];
+			if (propertySchema !== undefined) {
+				validateNode(propertySchema, propertyValue, joinPath(field, key), errors);
+			} else if (schema.additionalProperties !== undefined) {
+				validateNode(schema.additionalProperties, propertyValue, joinPath(field, key), errors);
+			}
+		}
+	}
+
+	for (const subSchema of schema.allOf ?? []) {
+		validateNode(subSchema, value, field, errors);
+	}
+	if (schema.anyOf && !schema.anyOf.some((subSchema) => validateJsonSchema(subSchema, value).length === 0)) {
+		errors.push({ field, message: 'does not match any of the allowed schemas' });
+	}
+	if (schema.oneOf && schema.oneOf.filter((subSchema) => validateJsonSchema(subSchema, value).length === 0).length !== 1) {
+		errors.push({ field, message: 'must match exactly one of the allowed schemas' });
+	}
+}
+
+/**
+ * Validates a value against a JSON Schema and returns one error per offending field
+ */
+export function validateJsonSchema(schema: JsonSchemaDefinition, value: unknown): SchemaFieldError[] {
+	const errors: SchemaFieldError[] = [];
+	validateNode(schema, value, '', errors);
+	return errors;
+}
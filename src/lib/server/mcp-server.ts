@@ -0,0 +1,197 @@
+/**
+ * Model Context Protocol server over the loaded plugins
+ *
+ * Every available plugin tool is published as an MCP tool named `pluginId_toolId`
+ * (the same prefix as systemPromptInstructions), with its input schema from
+ * describeTool, its description from the manifest and its outputSchema when it
+ * describes an object (MCP requires one). `tools/call` goes
+ * through executeTool, so validation, OAuth and cassettes behave as in the playground;
+ * a result breaking the outputSchema is returned as a tool error.
+ *
+ * Env and config per plugin come from a JSON config file (default: mcp.config.json):
+ *
+ *   {
+ *     "envFile": ".env",
+ *     "locale": "fr",
+ *     "userId": "mcp-user",
+ *     "plugins": {
+ *       "exa": { "env": { "EXA_API_KEY": "${EXA_API_KEY}" }, "config": { "numResults": 5 } },
+ *       "bing": { "enabled": false }
+ *     }
+ *   }
+ */
+
+import { existsSync } from 'node:fs';
+import { readFile } from 'node:fs/promises';
+import path from 'node:path';
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { CallToolRequestSchema, ListToolsRequestSchema, type Tool } from '@modelcontextprotocol/sdk/types.js';
+import type { Locale, PluginExport, ToolConfigValues } from '../../types';
+import { CASSETTE_MODES, type CassetteMode } from './cassettes';
+import { expandEnvReferences, readEnvFile } from './env-file';
+import { describeToolError } from './errors';
+import { LOCALES } from './plugin-context';
+import {
+	executeTool,
+	getPlugin,
+	getPlugins,
+	describeTool,
+	getToolOutputSchema,
+	resolvePluginTools
+} from './plugin-loader';
+
+export const DEFAULT_MCP_CONFIG_FILE = 'mcp.config.json';
+
+export interface McpPluginSettings {
+	/** Set to false to hide the plugin's tools (default: true) */
+	enabled?: boolean;
+	/** Values may reference the process env as `${NAME}` */
+	env?: Record<string, string>;
+	config?: ToolConfigValues;
+}
+
+export interface McpServerConfig {
+	/** dotenv file whose variables are handed to every plugin declaring them */
+	envFile?: string;
+	locale?: Locale;
+	userId?: string;
+	cassette?: CassetteMode;
+	plugins?: Record<string, McpPluginSettings>;
+}
+
+interface PublishedTool {
+	pluginId: string;
+	toolId: string;
+	env: Record<string, string>;
+	config: ToolConfigValues;
+	definition: Tool;
+}
+
+/**
+ * Reads the MCP config file; a missing default file means "no settings"
+ */
+export async function loadMcpConfig(filePath?: string): Promise<McpServerConfig> {
+	const resolved = path.resolve(filePath ?? DEFAULT_MCP_CONFIG_FILE);
+	if (!filePath && !existsSync(resolved)) return {};
+
+	const config = JSON.parse(await readFile(resolved, 'utf-8')) as McpServerConfig;
+	if (config.locale !== undefined && !LOCALES.includes(config.locale)) {
+		throw new Error(`${resolved}: "locale" must be one of ${LOCALES.join(', ')}`);
+	}
+	if (config.cassette !== undefined && !CASSETTE_MODES.includes(config.cassette)) {
+		throw new Error(`${resolved}: "cassette" must be one of ${CASSETTE_MODES.join(', ')}`);
+	}
+	// Relative paths in the file are relative to the file itself
+	if (config.envFile) config.envFile = path.resolve(path.dirname(resolved), config.envFile);
+	return config;
+}
+
+/**
+ * Resolves each plugin's env and config, and lists the tools available with them
+ */
+async function collectTools(config: McpServerConfig): Promise<PublishedTool[]> {
+	const sharedEnv = config.envFile ? await readEnvFile(config.envFile) : {};
+	const tools: PublishedTool[] = [];
+
+	for (const info of await getPlugins()) {
+		const settings = config.plugins?.[info.id] ?? {};
+		if (settings.enabled === false) continue;
+
+		const loaded = await getPlugin(info.id);
+		if (!loaded) continue;
+
+		const env: Record<string, string> = {};
+		for (const name of [...info.requiredEnvVars, ...info.optionalEnvVars]) {
+			const value = sharedEnv[name] ?? process.env[name];
+			if (value !== undefined) env[name] = value;
+		}
+		Object.assign(env, expandEnvReferences(settings.env ?? {}));
+		const pluginConfig = settings.config ?? {};
+
+		// A server-listing plugin that can't reach its server just publishes no tools
+		let plugin: PluginExport;
+		try {
+			plugin = await resolvePluginTools(loaded, pluginConfig, env);
+		} catch (error) {
+			console.error(`[mcp-server] ${info.id}: could not list the tools: ${error instanceof Error ? error.message : error}`);
+			continue;
+		}
+		for (const toolDef of plugin.tools) {
+			if (toolDef.isAvailable && !toolDef.isAvailable(env)) continue;
+
+			const manifestTool = plugin.manifest.tools.find((t) => t.id === toolDef.id);
+			const described = await describeTool(info.id, toolDef.id, { config: pluginConfig, env });
+			const inputSchema = (described?.inputSchema ?? { type: 'object' }) as Tool['inputSchema'];
+			const outputSchema = getToolOutputSchema(plugin, toolDef.id);
+
+			tools.push({
+				pluginId: info.id,
+				toolId: toolDef.id,
+				env,
+				config: pluginConfig,
+				definition: {
+					name: `${info.id}_${toolDef.id}`,
+					title: manifestTool?.name,
+					description: manifestTool?.description ?? '',
+					inputSchema: { ...inputSchema, type: 'object' },
+					...(outputSchema?.type === 'object' ? { outputSchema: outputSchema as Tool['outputSchema'] } : {})
+				}
+			});
+		}
+	}
+
+	return tools;
+}
+
+/**
+ * Creates an MCP server (not yet connected to a transport) publishing the plugin tools
+ */
+export function createMcpServer(config: McpServerConfig): Server {
+	const server = new Server({ name: 'plugin-playground', version: '1.0.0' }, { capabilities: { tools: {} } });
+
+	server.setRequestHandler(ListToolsRequestSchema, async () => ({
+		tools: (await collectTools(config)).map((tool) => tool.definition)
+	}));
+
+	server.setRequestHandler(CallToolRequestSchema, async (request) => {
+		const tool = (await collectTools(config)).find((t) => t.definition.name === request.params.name);
+		if (!tool) {
+			return { isError: true, content: [{ type: 'text', text: `Unknown or unavailable tool: ${request.params.name}` }] };
+		}
+
+		try {
+			const { result, execution } = await executeTool({
+				pluginId: tool.pluginId,
+				toolId: tool.toolId,
+				params: request.params.arguments ?? {},
+				env: tool.env,
+				config: tool.config,
+				context: { locale: config.locale, userId: config.userId },
+				cassette: config.cassette
+			});
+			const text = typeof result === 'string' ? result : JSON.stringify(result);
+			// Clients check structuredContent against the advertised outputSchema, so a result breaking
+			// it is returned as a tool error listing the violations, without structured content
+			if (tool.definition.outputSchema && execution.outputErrors) {
+				const violations = execution.outputErrors.map((e) => `- ${e.field || '(result)'}: ${e.message}`);
+				return {
+					isError: true,
+					content: [
+						{ type: 'text', text },
+						{ type: 'text', text: `Result does not match the tool's outputSchema:\n${violations.join('\n')}` }
+					]
+				};
+			}
+			const isObject = !!result && typeof result === 'object' && !Array.isArray(result);
+			return {
+				content: [{ type: 'text', text }],
+				...(isObject ? { structuredContent: result as Record<string, unknown> } : {})
+			};
+		} catch (error) {
+			// Tool failures are reported to the model, not raised as protocol errors
+			return { isError: true, content: [{ type: 'text', text: describeToolError(error) }] };
+		}
+	});
+
+	return server;
+}
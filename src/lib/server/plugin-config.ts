@@ -0,0 +1,137 @@
+/**
+ * Plugin configuration normalization
+ *
+ * Config values come from the browser (or a CLI flag, a preset, a test case) and are checked
+ * against the manifest's configSchema before the plugin sees them: values are coerced to the
+ * declared type (numeric strings, "true"/"false", comma-separated lists), defaults are filled
+ * in, and enum, bounds and required are enforced. Keys the schema does not declare are dropped.
+ *
+ * A plugin folder may map config keys to the env variable the plugin falls back to when the
+ * field is empty (`env-fallbacks.json`, read by the playground only: the configSchema is shared
+ * with the core, which has no such key). When that variable is set, the field is left empty
+ * rather than given the schema default, so the env value still wins.
+ */
+
+import type { ToolConfigProperty, ToolConfigSchema, ToolConfigValues } from '../../types';
+import type { SchemaFieldError } from './json-schema';
+
+export interface NormalizedConfig {
+	config: ToolConfigValues;
+	fieldErrors: SchemaFieldError[];
+}
+
+/**
+ * Config key -> env variable the plugin reads when that field is empty (`env-fallbacks.json`)
+ */
+export type ConfigEnvFallbacks = Record<string, string>;
+
+type ConfigValue = ToolConfigValues[string];
+
+const TRUE_STRINGS = ['true', '1', 'yes', 'on'];
+const FALSE_STRINGS = ['false', '0', 'no', 'off'];
+
+function isEmpty(value: unknown): boolean {
+	return value === undefined || value === null || (typeof value === 'string' && value.trim() === '');
+}
+
+/**
+ * Coerces a value to the property type; returns an error message when it can't be
+ */
+function coerce(property: ToolConfigProperty, value: unknown): { value: ConfigValue } | { error: string } {
+	switch (property.type) {
+		case 'string':
+			if (typeof value === 'string') return { value };
+			if (typeof value === 'number' || typeof value === 'boolean') return { value: String(value) };
+			return { error: 'must be a string' };
+
+		case 'number': {
+			const number = typeof value === 'string' ? Number(value.trim()) : value;
+			if (typeof number !== 'number' || !Number.isFinite(number)) return { error: 'must be a number' };
+			return { value: number };
+		}
+
+		case 'boolean':
+			if (typeof value === 'boolean') return { value };
+			if (typeof value === 'string' && TRUE_STRINGS.includes(value.trim().toLowerCase())) return { value: true };
+			if (typeof value === 'string' && FALSE_STRINGS.includes(value.trim().toLowerCase())) return { value: false };
+			return { error: 'must be a boolean' };
+
+		case 'array': {
+			const items = typeof value === 'string' ? value.split(/[,\n]/) : value;
+			if (!Array.isArray(items)) return { error: 'must be a list of strings' };
+			if (items.some((item) => typeof item !== 'string' && typeof item !== 'number')) {
+				return { error: 'must be a list of strings' };
+			}
+			return { value: items.map((item) => String(item).trim()).filter((item) => item.length > 0) };
+		}
+
+		default:
+			return { error: `has an unsupported type "${property.type}"` };
+	}
+}
+
+function checkConstraints(property: ToolConfigProperty, value: ConfigValue): string | null {
+	if (property.enum) {
+		const allowed = property.enum.map(String);
+		const values = Array.isArray(value) ? value : [value];
+		const invalid = values.find((v) => !allowed.includes(String(v)));
+		if (invalid !== undefined) return `must be one of: ${allowed.join(', ')} (got ${JSON.stringify(invalid)})`;
+	}
+	if (typeof value === 'number') {
+		if (property.minimum !== undefined && value < property.minimum) return `must be >= ${property.minimum}`;
+		if (property.maximum !== undefined && value > property.maximum) return `must be <= ${property.maximum}`;
+	}
+	return null;
+}
+
+/**
+ * Checks and coerces config values against a configSchema. Without a schema the values are
+ * passed through as given. `env` is only read for the `envFallbacks` of empty fields.
+ */
+export function normalizeConfig(
+	schema: ToolConfigSchema | undefined,
+	values: Record<string, unknown>,
+	env: Record<string, string | undefined> = {},
+	envFallbacks: ConfigEnvFallbacks = {}
+): NormalizedConfig {
+	if (!schema?.properties) return { config: { ...values } as ToolConfigValues, fieldErrors: [] };
+
+	const config: ToolConfigValues = {};
+	const fieldErrors: SchemaFieldError[] = [];
+	const required = schema.required ?? [];
+
+	for (const [key, property] of Object.entries(schema.properties)) {
+		const raw = values[key];
+		if (isEmpty(raw)) {
+			const fallback = envFallbacks[key];
+			if (fallback && !isEmpty(env[fallback])) continue;
+			if (property.default !== undefined) {
+				config[key] = property.default as ConfigValue;
+			} else if (required.includes(key)) {
+				fieldErrors.push({ field: key, message: 'is required' });
+			}
+			continue;
+		}
+
+		const coerced = coerce(property, raw);
+		if ('error' in coerced) {
+			fieldErrors.push({ field: key, message: coerced.error });
+			continue;
+		}
+
+		const constraintError = checkConstraints(property, coerced.value);
+		if (constraintError) {
+			fieldErrors.push({ field: key, message: constraintError });
+			continue;
+		}
+
+		// An emptied list of a required property is as good as missing
+		if (Array.isArray(coerced.value) && coerced.value.length === 0 && required.includes(key)) {
+			fieldErrors.push({ field: key, message: 'must not be empty' });
+			continue;
+		}
+		config[key] = coerced.value;
+	}
+
+	return { config, fieldErrors };
+}
@@ -0,0 +1,151 @@
+/**
+ * Plugin context builder for the test playground
+ *
+ * Builds the same PluginContext shape the core passes to plugins in production,
+ * with every ToolContext field overridable from the playground.
+ */
+
+import type {
+	Locale,
+	PluginContext,
+	PluginExport,
+	PluginLogger,
+	ToolConfigValues,
+	ToolContext
+} from '../../types';
+import { createPluginStorage } from './plugin-storage';
+import { createPluginTokens } from './plugin-tokens';
+
+export const LOCALES: Locale[] = ['fr', 'en', 'es', 'zh', 'de'];
+
+export const DEFAULT_LOCALE: Locale = 'fr';
+
+export const DEFAULT_USER_ID = 'test-user';
+
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error';
+
+export interface LogEntry {
+	level: LogLevel;
+	message: string;
+	data?: Record<string, unknown>;
+	timestamp: string;
+}
+
+/**
+ * Receives every PluginLogger call, e.g. to stream it to the playground
+ */
+export type LogSink = (entry: LogEntry) => void;
+
+export interface CreatePluginContextOptions {
+	pluginId: string;
+	/** Loaded plugin, needed for token refresh through its oauthHandlers */
+	plugin?: PluginExport;
+	config: ToolConfigValues;
+	env: Record<string, string | undefined>;
+	context?: Partial<ToolContext>;
+	/** Also forward logger calls here, on top of the server console */
+	onLog?: LogSink;
+}
+
+function createMockLogger(pluginId: string, onLog?: LogSink): PluginLogger {
+	const forward = (level: LogLevel, message: string, data?: Record<string, unknown>) => {
+		onLog?.({ level, message, data, timestamp: new Date().toISOString() });
+	};
+
+	return {
+		debug: (message: string, data?: Record<string, unknown>) => {
+			console.log(`[${pluginId}] DEBUG:`, message, data || '');
+			forward('debug', message, data);
+		},
+		info: (message: string, data?: Record<string, unknown>) => {
+			console.log(`[${pluginId}] INFO:`, message, data || '');
+			forward('info', message, data);
+		},
+		warn: (message: string, data?: Record<string, unknown>) => {
+			console.warn(`[${pluginId}] WARN:`, message, data || '');
+			forward('warn', message, data);
+		},
+		error: (message: string, data?: Record<string, unknown>) => {
+			console.error(`[${pluginId}] ERROR:`, message, data || '');
+			forward('error', message, data);
+		}
+	};
+}
+
+/**
+ * Builds a fully typed PluginContext, filling unset ToolContext fields with test defaults
+ */
+export function createPluginContext(options: CreatePluginContextOptions): PluginContext {
+	const { pluginId, plugin, config, env, context = {}, onLog } = options;
+	const userId = context.userId !== undefined ? context.userId : DEFAULT_USER_ID;
+
+	return {
+		datasourceIds: context.datasourceIds ?? [],
+		conversationId:
+			context.conversationId !== undefined ? context.conversationId : 'test-conversation-' + Date.now(),
+		userId,
+		userEmail: context.userEmail !== undefined ? context.userEmail : 'test@example.com',
+		toolOptions: context.toolOptions ?? {},
+		locale: context.locale ?? DEFAULT_LOCALE,
+		pluginConfig: config,
+		env,
+		logger: createMockLogger(pluginId, onLog),
+		storage: createPluginStorage(pluginId),
+		tokens: createPluginTokens({ userId, pluginId, plugin, config, env })
+	};
+}
+
+function asNullableString(value: unknown, field: string): string | null | undefined {
+	if (value === undefined || value === null) return value;
+	if (typeof value !== 'string') throw new Error(`context.${field} must be a string or null`);
+	return value;
+}
+
+/**
+ * Parses the `context` object of a request body into ToolContext overrides
+ */
+export function parseToolContext(value: unknown): Partial<ToolContext> {
+	if (value === undefined || value === null) return {};
+	if (typeof value !== 'object' || Array.isArray(value)) {
+		throw new Error('context must be an object');
+	}
+
+	const input = value as Record<string, unknown>;
+	const context: Partial<ToolContext> = {};
+
+	if (input.datasourceIds !== undefined) {
+		if (!Array.isArray(input.datasourceIds) || !input.datasourceIds.every((id) => typeof id === 'string')) {
+			throw new Error('context.datasourceIds must be an array of strings');
+		}
+		context.datasourceIds = input.datasourceIds;
+	}
+
+	const conversationId = asNullableString(input.conversationId, 'conversationId');
+	if (conversationId !== undefined) context.conversationId = conversationId;
+	const userId = asNullableString(input.userId, 'userId');
+	if (userId !== undefined) context.userId = userId;
+	const userEmail = asNullableString(input.userEmail, 'userEmail');
+	if (userEmail !== undefined) context.userEmail = userEmail;
+
+	if (input.toolOptions !== undefined) {
+		const toolOptions = input.toolOptions as Record<string, unknown>;
+		if (
+			typeof toolOptions !== 'object' ||
+			toolOptions === null ||
+			Array.isArray(toolOptions) ||
+			!Object.values(toolOptions).every((v) => typeof v === 'string')
+		) {
+			throw new Error('context.toolOptions must be an object of strings');
+		}
+		context.toolOptions = toolOptions as Record<string, string>;
+	}
+
+	if (input.locale !== undefined) {
+		if (!LOCALES.includes(input.locale as Locale)) {
+			throw new Error(`context.locale must be one of: ${LOCALES.join(', ')}`);
+		}
+		context.locale = input.locale as Locale;
+	}
+
+	return context;
+}
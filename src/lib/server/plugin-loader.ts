@@ -1,20 +1,343 @@
 /**
  * Plugin Loader for the test playground
  *
- * Dynamically loads plugins from the plugins/ directory
+ * Discovers plugins from the plugins/ directory: every folder holding an
+ * `index.ts` and a `manifest.json` is imported, unless it is filtered out by
+ * `ENABLED_PLUGINS` (same comma-separated list as the production Docker build).
+ * Under Vite the folders are found with import.meta.glob, so a build bundles the
+ * plugins; the CLI and test runner (tsx) scan the folder and import it at runtime.
  */
 
-import type { PluginExport, PluginContext, PluginLogger, PluginStorageAPI, ToolConfigValues } from '../../types';
+import { existsSync, readdirSync, watch, type FSWatcher } from 'node:fs';
+import { readFile } from 'node:fs/promises';
+import path from 'node:path';
+import type {
+	PluginExport,
+	PluginToolDeclaration,
+	PluginToolDefinition,
+	ToolConfigValues,
+	ToolContext
+} from '../../types';
+import {
+	ConfigValidationError,
+	PlaygroundError,
+	PluginOAuthRequiredError,
+	ToolExecutionError,
+	ToolInputValidationError,
+	ToolUnavailableError
+} from './errors';
+import { openCassette, type CassetteMode } from './cassettes';
+import {
+	collectSecretEnvValues,
+	collectSecrets,
+	recordExecution,
+	redactText,
+	redactValue,
+	type ExecutionRecord
+} from './execution-record';
+import { validateJsonSchema, type JsonSchema } from './json-schema';
+import { normalizeConfig, type ConfigEnvFallbacks } from './plugin-config';
+import { createPluginContext, type LogSink } from './plugin-context';
+import { createPluginTokens } from './plugin-tokens';
+import { validatePlugin, type PluginDiagnostic } from './plugin-validator';
 
-// Import plugins statically (Vite doesn't support dynamic imports from fs in dev)
-import weatherPlugin from '../../../plugins/weather';
-import pixabayPlugin from '../../../plugins/pixabay';
-import fetchPlugin from '../../../plugins/fetch';
-import bingPlugin from '../../../plugins/bing';
-import exaPlugin from '../../../plugins/exa';
+const PLUGINS_DIR = path.resolve(process.env.PLUGINS_DIR || 'plugins');
 
-// Registry of loaded plugins
-const loadedPlugins: PluginExport[] = [weatherPlugin, pixabayPlugin, fetchPlugin, bingPlugin, exaPlugin];
+/**
+ * A plugin folder that was skipped during discovery, and why
+ */
+export interface PluginLoadError {
+	directory: string;
+	message: string;
+}
+
+/**
+ * User-facing messages by locale, as plain strings or formatting functions. A plugin module
+ * may export one as `MESSAGES` next to its default export; it is not part of the plugin
+ * contract, only read by the i18n coverage report.
+ */
+export type MessageCatalog = Record<string, Record<string, string | ((...args: never[]) => string)>>;
+
+interface PluginRegistry {
+	plugins: PluginExport[];
+	/** Plugin id -> absolute folder path */
+	directories: Map<string, string>;
+	/** Plugin id -> the `MESSAGES` exported by its module, when it has one */
+	messages: Map<string, MessageCatalog>;
+	/** Plugin id -> its env-fallbacks.json, when it has one */
+	envFallbacks: Map<string, ConfigEnvFallbacks>;
+	errors: PluginLoadError[];
+	diagnostics: Map<string, PluginDiagnostic[]>;
+}
+
+// Kept on globalThis so a dev-server reload of this module can unload the previous plugins
+const globalState = globalThis as typeof globalThis & {
+	__pluginRegistry?: Promise<PluginRegistry> | null;
+	__pluginShutdownRegistered?: boolean;
+	__pluginWatcher?: FSWatcher;
+};
+
+if (globalState.__pluginRegistry) {
+	const previous = globalState.__pluginRegistry;
+	globalState.__pluginRegistry = null;
+	void unloadRegistry(previous);
+}
+
+/**
+ * Parses ENABLED_PLUGINS. Returns null when every plugin is enabled.
+ */
+function parseEnabledPlugins(value: string | undefined): Set<string> | null {
+	const ids = (value || '')
+		.split(',')
+		.map((id) => id.trim())
+		.filter((id) => id.length > 0);
+	return ids.length > 0 ? new Set(ids) : null;
+}
+
+/**
+ * How to import one plugin folder's files; a missing file has no loader
+ */
+interface PluginSource {
+	loadIndex?: () => Promise<unknown>;
+	loadManifest?: () => Promise<unknown>;
+	loadEnvFallbacks?: () => Promise<unknown>;
+}
+
+function folderOf(file: string): string {
+	return file.split('/').at(-2)!;
+}
+
+/**
+ * Plugin folder name -> its sources, sorted by folder name
+ */
+function findPluginSources(): Map<string, PluginSource> {
+	const sources = new Map<string, PluginSource>();
+
+	// import.meta.env only exists under Vite, which turns the globs into bundled imports
+	if (import.meta.env) {
+		const indexes = import.meta.glob('/plugins/*/index.ts');
+		const manifests = import.meta.glob('/plugins/*/manifest.json', { import: 'default' });
+		const envFallbacks = import.meta.glob('/plugins/*/env-fallbacks.json', { import: 'default' });
+		for (const file of [...Object.keys(indexes), ...Object.keys(manifests)].sort()) {
+			const directory = folderOf(file);
+			sources.set(directory, {
+				loadIndex: indexes[`/plugins/${directory}/index.ts`],
+				loadManifest: manifests[`/plugins/${directory}/manifest.json`],
+				loadEnvFallbacks: envFallbacks[`/plugins/${directory}/env-fallbacks.json`]
+			});
+		}
+		return sources;
+	}
+
+	const directories = readdirSync(PLUGINS_DIR, { withFileTypes: true })
+		.filter((entry) => entry.isDirectory() && !entry.name.startsWith('.'))
+		.map((entry) => entry.name)
+		.sort();
+	for (const directory of directories) {
+		const indexPath = path.join(PLUGINS_DIR, directory, 'index.ts');
+		const manifestPath = path.join(PLUGINS_DIR, directory, 'manifest.json');
+		const envFallbacksPath = path.join(PLUGINS_DIR, directory, 'env-fallbacks.json');
+		sources.set(directory, {
+			loadIndex: existsSync(indexPath) ? () => import(/* @vite-ignore */ indexPath) : undefined,
+			loadManifest: existsSync(manifestPath)
+				? async () => JSON.parse(await readFile(manifestPath, 'utf-8'))
+				: undefined,
+			loadEnvFallbacks: existsSync(envFallbacksPath)
+				? async () => JSON.parse(await readFile(envFallbacksPath, 'utf-8'))
+				: undefined
+		});
+	}
+	return sources;
+}
+
+function isMessageCatalog(value: unknown): value is MessageCatalog {
+	const isObject = (v: unknown) => !!v && typeof v === 'object' && !Array.isArray(v);
+	return isObject(value) && Object.values(value as object).every(isObject);
+}
+
+function isEnvFallbacks(value: unknown): value is ConfigEnvFallbacks {
+	return (
+		!!value &&
+		typeof value === 'object' &&
+		!Array.isArray(value) &&
+		Object.values(value).every((variable) => typeof variable === 'string')
+	);
+}
+
+function isPluginExport(value: unknown): value is PluginExport {
+	const candidate = value as PluginExport | undefined;
+	return !!candidate && typeof candidate.manifest === 'object' && Array.isArray(candidate.tools);
+}
+
+async function loadPluginSource(
+	source: PluginSource
+): Promise<{ plugin: PluginExport; messages?: MessageCatalog; envFallbacks?: ConfigEnvFallbacks }> {
+	if (!source.loadIndex) {
+		throw new Error('missing index.ts');
+	}
+	if (!source.loadManifest) {
+		throw new Error('missing manifest.json');
+	}
+
+	const manifest = (await source.loadManifest()) as { id?: unknown };
+	const module = (await source.loadIndex()) as { default?: unknown; MESSAGES?: unknown };
+	const plugin: unknown = module.default;
+
+	if (!isPluginExport(plugin)) {
+		throw new Error('index.ts must default-export a PluginExport ({ manifest, tools })');
+	}
+	if (plugin.manifest.id !== manifest.id) {
+		throw new Error(
+			`exported manifest id "${plugin.manifest.id}" does not match manifest.json id "${String(manifest.id)}"`
+		);
+	}
+
+	const envFallbacks = await source.loadEnvFallbacks?.();
+	if (envFallbacks !== undefined && !isEnvFallbacks(envFallbacks)) {
+		throw new Error('env-fallbacks.json must map config keys to env variable names');
+	}
+
+	if (plugin.onLoad) {
+		try {
+			await plugin.onLoad();
+		} catch (error) {
+			throw new Error(`onLoad failed: ${error instanceof Error ? error.message : String(error)}`);
+		}
+	}
+
+	return { plugin, messages: isMessageCatalog(module.MESSAGES) ? module.MESSAGES : undefined, envFallbacks };
+}
+
+async function discoverPlugins(): Promise<PluginRegistry> {
+	const plugins: PluginExport[] = [];
+	const directoryById = new Map<string, string>();
+	const messagesById = new Map<string, MessageCatalog>();
+	const envFallbacksById = new Map<string, ConfigEnvFallbacks>();
+	const errors: PluginLoadError[] = [];
+	const diagnostics = new Map<string, PluginDiagnostic[]>();
+	const enabled = parseEnabledPlugins(process.env.ENABLED_PLUGINS);
+
+	const sources = findPluginSources();
+
+	for (const [directory, source] of sources) {
+		if (enabled && !enabled.has(directory)) continue;
+
+		try {
+			const { plugin, messages, envFallbacks } = await loadPluginSource(source);
+			if (plugins.some((p) => p.manifest.id === plugin.manifest.id)) {
+				throw new Error(`duplicate plugin id "${plugin.manifest.id}"`);
+			}
+			plugins.push(plugin);
+			directoryById.set(plugin.manifest.id, path.join(PLUGINS_DIR, directory));
+			if (messages) messagesById.set(plugin.manifest.id, messages);
+			if (envFallbacks) envFallbacksById.set(plugin.manifest.id, envFallbacks);
+		} catch (error) {
+			const message = error instanceof Error ? error.message : String(error);
+			console.error(`[plugin-loader] Skipping plugins/${directory}: ${message}`);
+			errors.push({ directory, message });
+		}
+	}
+
+	for (const id of enabled ?? []) {
+		if (!sources.has(id)) {
+			errors.push({ directory: id, message: 'listed in ENABLED_PLUGINS but no such folder in plugins/' });
+		}
+	}
+
+	for (const plugin of plugins) {
+		const pluginDiagnostics = validatePlugin(plugin, envFallbacksById.get(plugin.manifest.id));
+		diagnostics.set(plugin.manifest.id, pluginDiagnostics);
+		for (const diagnostic of pluginDiagnostics) {
+			const log = diagnostic.severity === 'error' ? console.error : console.warn;
+			log(`[plugin-loader] ${plugin.manifest.id} ${diagnostic.severity}: ${diagnostic.message}`);
+		}
+	}
+
+	console.log(`[plugin-loader] Loaded ${plugins.length} plugin(s): ${plugins.map((p) => p.manifest.id).join(', ')}`);
+
+	return {
+		plugins,
+		directories: directoryById,
+		messages: messagesById,
+		envFallbacks: envFallbacksById,
+		errors,
+		diagnostics
+	};
+}
+
+/**
+ * Discovers the plugins once and returns the cached registry afterwards
+ */
+export function loadPlugins(): Promise<PluginRegistry> {
+	if (!globalState.__pluginRegistry) {
+		globalState.__pluginRegistry = discoverPlugins();
+	}
+	return globalState.__pluginRegistry;
+}
+
+async function unloadRegistry(registry: Promise<PluginRegistry>): Promise<void> {
+	const { plugins } = await registry.catch(() => ({ plugins: [] as PluginExport[] }));
+
+	for (const plugin of plugins) {
+		if (!plugin.onUnload) continue;
+		try {
+			await plugin.onUnload();
+		} catch (error) {
+			console.error(`[plugin-loader] ${plugin.manifest.id} onUnload failed:`, error);
+		}
+	}
+}
+
+/**
+ * Calls onUnload on every loaded plugin; the next loadPlugins() call discovers them again
+ */
+export async function unloadPlugins(): Promise<void> {
+	const registry = globalState.__pluginRegistry;
+	globalState.__pluginRegistry = null;
+	if (registry) {
+		await unloadRegistry(registry);
+	}
+}
+
+/**
+ * Dev only: unloads the plugins whenever a file under plugins/ changes, so the next request reloads them
+ */
+export function watchPlugins() {
+	if (globalState.__pluginWatcher) return;
+
+	let timer: ReturnType<typeof setTimeout> | undefined;
+	globalState.__pluginWatcher = watch(PLUGINS_DIR, { recursive: true }, (_event, filename) => {
+		// Recorded cassettes and saved presets are data, not code
+		const segments = filename?.split(path.sep) ?? [];
+		if (segments.includes('cassettes') || segments.includes('presets')) return;
+		clearTimeout(timer);
+		timer = setTimeout(() => {
+			console.log('[plugin-loader] plugins/ changed, unloading plugins');
+			void unloadPlugins();
+		}, 200);
+	});
+	globalState.__pluginWatcher.unref();
+}
+
+/**
+ * Unloads the plugins before the process exits
+ */
+export function registerPluginShutdown() {
+	if (globalState.__pluginShutdownRegistered) return;
+	globalState.__pluginShutdownRegistered = true;
+
+	for (const signal of ['SIGINT', 'SIGTERM'] as const) {
+		process.once(signal, () => {
+			unloadPlugins().finally(() => process.exit(0));
+		});
+	}
+	// Emitted by @sveltejs/adapter-node on graceful shutdown
+	process.once('sveltekit:shutdown', () => void unloadPlugins());
+}
+
+export async function getPluginLoadErrors(): Promise<PluginLoadError[]> {
+	return (await loadPlugins()).errors;
+}
 
 export interface PluginInfo {
 	id: string;
@@ -27,15 +350,21 @@ export interface PluginInfo {
 	requiredEnvVars: string[];
 	optionalEnvVars: string[];
 	configSchema?: object;
+	/** Config key -> env variable the plugin reads when the field is empty (env-fallbacks.json) */
+	configEnvFallbacks?: ConfigEnvFallbacks;
 	tools: {
 		id: string;
 		name: string;
 		description: string;
+		requiresPluginOAuth?: string;
 	}[];
+	hasOAuth: boolean;
+	diagnostics: PluginDiagnostic[];
 }
 
-export function getPlugins(): PluginInfo[] {
-	return loadedPlugins.map((plugin) => ({
+export async function getPlugins(): Promise<PluginInfo[]> {
+	const { plugins, diagnostics, envFallbacks } = await loadPlugins();
+	return plugins.map((plugin) => ({
 		id: plugin.manifest.id,
 		name: plugin.manifest.name,
 		version: plugin.manifest.version,
@@ -46,49 +375,88 @@ export function getPlugins(): PluginInfo[] {
 		requiredEnvVars: plugin.manifest.requiredEnvVars || [],
 		optionalEnvVars: plugin.manifest.optionalEnvVars || [],
 		configSchema: plugin.manifest.configSchema,
+		configEnvFallbacks: envFallbacks.get(plugin.manifest.id),
 		tools: plugin.manifest.tools.map((t) => ({
 			id: t.id,
 			name: t.name,
-			description: t.description
-		}))
+			description: t.description,
+			requiresPluginOAuth: t.requiresPluginOAuth
+		})),
+		hasOAuth: !!plugin.oauthHandlers,
+		diagnostics: diagnostics.get(plugin.manifest.id) ?? []
 	}));
 }
 
-export function getPlugin(pluginId: string): PluginExport | undefined {
-	return loadedPlugins.find((p) => p.manifest.id === pluginId);
+export async function getPlugin(pluginId: string): Promise<PluginExport | undefined> {
+	const { plugins } = await loadPlugins();
+	return plugins.find((p) => p.manifest.id === pluginId);
 }
 
-function createMockLogger(pluginId: string): PluginLogger {
-	return {
-		debug: (message: string, data?: Record<string, unknown>) => {
-			console.log(`[${pluginId}] DEBUG:`, message, data || '');
-		},
-		info: (message: string, data?: Record<string, unknown>) => {
-			console.log(`[${pluginId}] INFO:`, message, data || '');
-		},
-		warn: (message: string, data?: Record<string, unknown>) => {
-			console.warn(`[${pluginId}] WARN:`, message, data || '');
-		},
-		error: (message: string, data?: Record<string, unknown>) => {
-			console.error(`[${pluginId}] ERROR:`, message, data || '');
-		}
-	};
+export async function getPluginDirectory(pluginId: string): Promise<string> {
+	const { directories } = await loadPlugins();
+	return directories.get(pluginId) ?? path.join(PLUGINS_DIR, pluginId);
 }
 
-function createMockStorage(pluginId: string): PluginStorageAPI {
-	const files = new Map<string, { buffer: Buffer; contentType: string }>();
+/**
+ * normalizeConfig with the plugin's configSchema and env-fallbacks.json
+ */
+async function normalizePluginConfig(
+	plugin: PluginExport,
+	values: Record<string, unknown>,
+	env: Record<string, string | undefined>
+) {
+	const { envFallbacks } = await loadPlugins();
+	return normalizeConfig(plugin.manifest.configSchema, values, env, envFallbacks.get(plugin.manifest.id));
+}
 
-	return {
-		uploadFile: async (fileName: string, buffer: Buffer, contentType: string): Promise<string> => {
-			const path = `mock-storage/${pluginId}/${fileName}`;
-			files.set(path, { buffer, contentType });
-			console.log(`[${pluginId}] Mock file uploaded: ${path}`);
-			return `/api/mock-files/${path}`;
-		},
-		getFileUrl: (fileName: string): string => {
-			return `/api/mock-files/mock-storage/${pluginId}/${fileName}`;
-		}
-	};
+/**
+ * Normalizes config values against the plugin's configSchema (types, defaults, enum, bounds,
+ * required), throwing a ConfigValidationError listing the invalid fields
+ */
+export async function resolvePluginConfig(
+	plugin: PluginExport,
+	values: Record<string, unknown>,
+	env: Record<string, string | undefined> = {}
+): Promise<ToolConfigValues> {
+	const { config, fieldErrors } = await normalizePluginConfig(plugin, values, env);
+	if (fieldErrors.length > 0) {
+		throw new ConfigValidationError(`Invalid configuration for plugin ${plugin.manifest.id}`, fieldErrors);
+	}
+	return config;
+}
+
+/**
+ * Playground extension of the plugin contract for plugins whose tools depend on their config
+ * and env (mcp-bridge lists the tools of the server they name). `discoverTools` answers with
+ * the tools and their manifest declarations for those values, leaving the plugin's own
+ * `tools` (listed at load time) alone, so runs with different values don't share tools.
+ */
+export interface ToolDiscovery {
+	discoverTools: (
+		config: ToolConfigValues,
+		env: Record<string, string | undefined>
+	) => Promise<{ tools: PluginToolDefinition[]; declarations: PluginToolDeclaration[] }>;
+}
+
+/**
+ * The plugin with the tools a plugin implementing ToolDiscovery lists for the config and env
+ * of a run, or of the playground's current settings; invalid config values are left out.
+ * Other plugins are returned as they are.
+ */
+export async function resolvePluginTools(
+	plugin: PluginExport,
+	config: Record<string, unknown>,
+	env: Record<string, string>
+): Promise<PluginExport> {
+	const { discoverTools } = plugin as PluginExport & Partial<ToolDiscovery>;
+	if (typeof discoverTools !== 'function') return plugin;
+
+	const { tools, declarations } = await discoverTools.call(
+		plugin,
+		(await normalizePluginConfig(plugin, config, env)).config,
+		env
+	);
+	return { ...plugin, tools, manifest: { ...plugin.manifest, tools: declarations } };
 }
 
 export interface ExecuteToolOptions {
@@ -97,82 +465,179 @@ export interface ExecuteToolOptions {
 	params: Record<string, unknown>;
 	env: Record<string, string>;
 	config: ToolConfigValues;
+	context?: Partial<ToolContext>;
+	/** Record outbound HTTP calls to a cassette or replay them from one (default: live) */
+	cassette?: CassetteMode;
+	/** Named profile the env and config were taken from, kept in the execution record */
+	profile?: string;
+	/** Receives the plugin's logger calls while the tool runs */
+	onLog?: LogSink;
+	/** Receives each step of the execution pipeline */
+	onProgress?: (event: ExecutionProgress) => void;
 }
 
-export async function executeTool(options: ExecuteToolOptions): Promise<unknown> {
-	const { pluginId, toolId, params, env, config } = options;
+export type ExecutionStage = 'config' | 'oauth' | 'input' | 'execute' | 'output' | 'done';
+
+export interface ExecutionProgress {
+	stage: ExecutionStage;
+	message: string;
+}
+
+export interface ToolExecution {
+	result: unknown;
+	execution: ExecutionRecord;
+}
 
-	const plugin = getPlugin(pluginId);
-	if (!plugin) {
-		throw new Error(`Plugin not found: ${pluginId}`);
+export async function executeTool(options: ExecuteToolOptions): Promise<ToolExecution> {
+	const { pluginId, toolId, params, env, context: contextOverrides, onLog, onProgress } = options;
+	const cassetteMode = options.cassette ?? 'live';
+
+	const loaded = await getPlugin(pluginId);
+	if (!loaded) {
+		throw new PlaygroundError(`Plugin not found: ${pluginId}`, 404);
 	}
 
+	const plugin = await resolvePluginTools(loaded, options.config, env);
 	const toolDef = plugin.tools.find((t) => t.id === toolId);
 	if (!toolDef) {
-		throw new Error(`Tool not found: ${toolId} in plugin ${pluginId}`);
+		throw new PlaygroundError(`Tool not found: ${toolId} in plugin ${pluginId}`, 404);
 	}
 
 	// Check availability
 	if (toolDef.isAvailable && !toolDef.isAvailable(env)) {
-		throw new Error(`Tool ${toolId} is not available (missing required env vars)`);
-	}
-
-	// Create mock context
-	const context: PluginContext = {
-		datasourceId: null,
-		conversationId: 'test-conversation-' + Date.now(),
-		userId: 'test-user',
-		userEmail: 'test@example.com',
-		locale: 'fr',
-		pluginConfig: config,
-		env,
-		logger: createMockLogger(pluginId),
-		storage: createMockStorage(pluginId)
-	};
+		throw new ToolUnavailableError(toolId);
+	}
 
-	// Create and execute the tool
-	const tool = toolDef.createTool(context);
+	// Check the config against the configSchema, then let the plugin reject it with its
+	// own message, as the core does
+	onProgress?.({ stage: 'config', message: 'Validating plugin configuration' });
+	const config = await resolvePluginConfig(plugin, options.config, env);
+	if (plugin.validateConfig) {
+		const validation = plugin.validateConfig(config);
+		if (validation !== true) {
+			throw new ConfigValidationError(
+				typeof validation === 'string' ? validation : `Invalid configuration for plugin ${pluginId}`
+			);
+		}
+	}
 
-	// Get the input schema to understand the parameters
-	// The AI SDK tool has an execute method we can call
-	// eslint-disable-next-line @typescript-eslint/no-explicit-any
-	const result = await (tool as any).execute(params);
+	const secrets = collectSecrets(env);
+	const outputSecrets = collectSecretEnvValues(env);
+	const cassette =
+		cassetteMode === 'live'
+			? null
+			: await openCassette({
+					mode: cassetteMode,
+					pluginDir: await getPluginDirectory(pluginId),
+					pluginId,
+					toolId,
+					params,
+					secrets,
+					responseSecrets: outputSecrets
+				});
 
-	return result;
-}
+	// Everything from here on is timed, and the plugin's fetch calls and logs are recorded
+	const run = await recordExecution(secrets, async (addLog) => {
+		const context = createPluginContext({
+			pluginId,
+			plugin,
+			config,
+			env,
+			context: contextOverrides,
+			// Logs and results are shown in the playground, so secret env values never make it there
+			onLog: (entry) => {
+				const redacted = {
+					...entry,
+					message: redactText(entry.message, outputSecrets),
+					data: redactValue(entry.data, outputSecrets)
+				};
+				addLog(redacted);
+				onLog?.(redacted);
+			}
+		});
 
-export function getToolInputSchema(pluginId: string, toolId: string): object | null {
-	const plugin = getPlugin(pluginId);
-	if (!plugin) return null;
+		// Tools using plugin-managed OAuth are blocked until the user has a usable token: a stored
+		// one that has not expired, or that the owning plugin could refresh
+		const oauthPluginId = plugin.manifest.tools.find((t) => t.id === toolId)?.requiresPluginOAuth;
+		if (oauthPluginId) {
+			onProgress?.({ stage: 'oauth', message: `Checking the "${oauthPluginId}" account connection` });
+			const tokens =
+				oauthPluginId === pluginId
+					? context.tokens
+					: createPluginTokens({
+							userId: context.userId,
+							pluginId: oauthPluginId,
+							plugin: await getPlugin(oauthPluginId),
+							config,
+							env
+						});
+			if (!(await tokens.get())) {
+				throw new PluginOAuthRequiredError(toolId, oauthPluginId);
+			}
+		}
 
-	const toolDef = plugin.tools.find((t) => t.id === toolId);
-	if (!toolDef) return null;
+		// Create the tool and reject params that do not match its input schema
+		onProgress?.({ stage: 'input', message: 'Validating tool input' });
+		const tool = toolDef.createTool(context);
+		const validParams = await validateToolInput(tool, toolId, params);
 
-	// Create a minimal context to get the tool instance
-	const context: PluginContext = {
-		datasourceId: null,
-		conversationId: null,
-		pluginConfig: {},
-		env: {},
-		logger: createMockLogger(pluginId),
-		storage: createMockStorage(pluginId)
-	};
+		onProgress?.({ stage: 'execute', message: `Running ${toolId}` });
+		// eslint-disable-next-line @typescript-eslint/no-explicit-any
+		return (tool as any).execute(validParams);
+	}, cassette?.interceptor);
 
-	const tool = toolDef.createTool(context);
+	// Runs rejected before any HTTP call (input validation, OAuth) leave the cassette alone
+	const rejected = 'error' in run && run.error instanceof PlaygroundError;
+	if (cassette && !rejected) {
+		run.record.cassette = { mode: cassette.mode, file: cassette.file };
+		// A replay mismatch explains whatever else went wrong, so it is reported first
+		await cassette.finish();
+	}
+	if (options.profile) run.record.profile = options.profile;
+
+	if ('error' in run) {
+		if (run.error instanceof PlaygroundError) throw run.error;
+		const error = new ToolExecutionError(toolId, run.error, run.record);
+		error.message = redactText(error.message, outputSecrets);
+		throw error;
+	}
+
+	const result = redactValue(run.value, outputSecrets);
+	const outputSchema = getToolOutputSchema(plugin, toolId);
+	if (outputSchema) {
+		onProgress?.({ stage: 'output', message: 'Validating tool output' });
+		const outputErrors = validateJsonSchema(outputSchema, result);
+		if (outputErrors.length > 0) run.record.outputErrors = outputErrors;
+	}
+
+	onProgress?.({ stage: 'done', message: `${toolId} finished in ${run.record.durationMs} ms` });
+	return { result, execution: run.record };
+}
+
+/**
+ * The JSON Schema a tool's result must match, from its PluginToolDefinition or else its
+ * manifest declaration
+ */
+export function getToolOutputSchema(plugin: PluginExport, toolId: string): JsonSchema | null {
+	const schema =
+		plugin.tools.find((t) => t.id === toolId)?.outputSchema ??
+		plugin.manifest.tools.find((t) => t.id === toolId)?.outputSchema;
+	return (schema as JsonSchema | undefined) ?? null;
+}
 
-	// Extract schema from the tool (AI SDK format)
+/**
+ * Extracts the JSON Schema of a tool instance's input
+ */
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+async function extractInputSchema(toolAny: any): Promise<JsonSchema | null> {
 	// AI SDK tool() returns: { description, inputSchema, execute }
 	// inputSchema has: { _type, jsonSchema, validate }
-	// eslint-disable-next-line @typescript-eslint/no-explicit-any
-	const toolAny = tool as any;
-
-	// AI SDK uses inputSchema (not parameters)
 	if (toolAny.inputSchema) {
 		const inputSchema = toolAny.inputSchema;
 
-		// The jsonSchema property contains the actual JSON Schema
+		// The jsonSchema property contains the actual JSON Schema (possibly lazy)
 		if (inputSchema.jsonSchema) {
-			return inputSchema.jsonSchema;
+			return await inputSchema.jsonSchema;
 		}
 
 		// Fallback: if it has type: 'object' and properties, it's already a JSON schema
@@ -185,7 +650,7 @@ export function getToolInputSchema(pluginId: string, toolId: string): object | n
 	if (toolAny.parameters) {
 		const params = toolAny.parameters;
 		if (params.jsonSchema) {
-			return params.jsonSchema;
+			return await params.jsonSchema;
 		}
 		if (params.type === 'object' && params.properties) {
 			return params;
@@ -194,3 +659,74 @@ export function getToolInputSchema(pluginId: string, toolId: string): object | n
 
 	return null;
 }
+
+/**
+ * Validates params against the tool's JSON Schema, then against the AI SDK schema's
+ * own validate (e.g. zod), and returns the params the tool should receive
+ */
+async function validateToolInput(tool: unknown, toolId: string, params: Record<string, unknown>): Promise<unknown> {
+	const schema = await extractInputSchema(tool);
+	const fieldErrors = schema ? validateJsonSchema(schema, params) : [];
+	if (fieldErrors.length > 0) {
+		throw new ToolInputValidationError(toolId, fieldErrors);
+	}
+
+	// eslint-disable-next-line @typescript-eslint/no-explicit-any
+	const validate = (tool as any).inputSchema?.validate;
+	if (typeof validate === 'function') {
+		const validation = await validate(params);
+		if (!validation.success) {
+			const message = validation.error instanceof Error ? validation.error.message : String(validation.error);
+			throw new ToolInputValidationError(toolId, [{ field: '', message }]);
+		}
+		return validation.value;
+	}
+
+	return params;
+}
+
+export interface ToolDescription {
+	/** Description given to tool(), i.e. what a model sees */
+	description?: string;
+	inputSchema: JsonSchema | null;
+}
+
+/**
+ * Creates a tool instance to read its description and input schema
+ */
+export async function describeTool(
+	pluginId: string,
+	toolId: string,
+	options: { config?: ToolConfigValues; env?: Record<string, string>; context?: Partial<ToolContext> } = {}
+): Promise<ToolDescription | null> {
+	const loaded = await getPlugin(pluginId);
+	if (!loaded) return null;
+
+	// Tools listed from the config and env are looked up with them; the load-time list otherwise
+	const plugin =
+		options.config || options.env ? await resolvePluginTools(loaded, options.config ?? {}, options.env ?? {}) : loaded;
+
+	const toolDef = plugin.tools.find((t) => t.id === toolId);
+	if (!toolDef) return null;
+
+	// Without config or env by default, which is enough to get the tool instance; invalid
+	// values are left out rather than rejected
+	const context = createPluginContext({
+		pluginId,
+		plugin,
+		config: (await normalizePluginConfig(plugin, options.config ?? {}, options.env ?? {})).config,
+		env: options.env ?? {},
+		context: options.context
+	});
+	const tool = toolDef.createTool(context);
+
+	return { description: tool.description, inputSchema: await extractInputSchema(tool) };
+}
+
+export async function getToolInputSchema(
+	pluginId: string,
+	toolId: string,
+	contextOverrides?: Partial<ToolContext>
+): Promise<object | null> {
+	return (await describeTool(pluginId, toolId, { context: contextOverrides }))?.inputSchema ?? null;
+}
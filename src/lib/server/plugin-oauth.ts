@@ -0,0 +1,102 @@
+/**
+ * Generic per-user OAuth flow driven by a plugin's PluginOAuthHandlers
+ *
+ * /api/oauth/start builds the authorization URL, /api/oauth/callback exchanges the code
+ * and stores the tokens for (userId, pluginId).
+ */
+
+import { randomBytes } from 'node:crypto';
+import type { ToolConfigValues } from '../../types';
+import { PlaygroundError } from './errors';
+import { getPlugin, resolvePluginConfig } from './plugin-loader';
+import { expiresInToDate, saveToken } from './plugin-tokens';
+
+// Abandoned flows are forgotten after 10 minutes
+const STATE_TTL_MS = 10 * 60 * 1000;
+
+interface PendingOAuthFlow {
+	pluginId: string;
+	userId: string | null;
+	redirectUri: string;
+	config: ToolConfigValues;
+	env: Record<string, string | undefined>;
+	createdAt: number;
+}
+
+const pendingFlows = new Map<string, PendingOAuthFlow>();
+
+export interface StartOAuthOptions {
+	pluginId: string;
+	userId: string | null;
+	redirectUri: string;
+	config: ToolConfigValues;
+	env: Record<string, string | undefined>;
+}
+
+function forgetExpiredFlows() {
+	const now = Date.now();
+	for (const [state, flow] of pendingFlows) {
+		if (now - flow.createdAt > STATE_TTL_MS) pendingFlows.delete(state);
+	}
+}
+
+async function getOAuthPlugin(pluginId: string) {
+	const plugin = await getPlugin(pluginId);
+	if (!plugin) {
+		throw new PlaygroundError(`Plugin not found: ${pluginId}`, 404);
+	}
+	if (!plugin.oauthHandlers) {
+		throw new PlaygroundError(`Plugin ${pluginId} does not declare oauthHandlers`, 400);
+	}
+	return { plugin, handlers: plugin.oauthHandlers };
+}
+
+/**
+ * Starts a flow and returns the plugin's authorization URL
+ */
+export async function startOAuth(options: StartOAuthOptions): Promise<string> {
+	const { plugin, handlers } = await getOAuthPlugin(options.pluginId);
+	const config = await resolvePluginConfig(plugin, options.config, options.env);
+	forgetExpiredFlows();
+
+	const state = randomBytes(16).toString('hex');
+	pendingFlows.set(state, { ...options, config, createdAt: Date.now() });
+
+	return handlers.buildAuthUrl({
+		redirectUri: options.redirectUri,
+		state,
+		config,
+		env: options.env
+	});
+}
+
+/**
+ * Exchanges the authorization code of a pending flow and stores the tokens
+ */
+export async function completeOAuth(code: string, state: string): Promise<{ pluginId: string; userId: string | null }> {
+	forgetExpiredFlows();
+	const flow = pendingFlows.get(state);
+	if (!flow) {
+		throw new PlaygroundError('Unknown or expired OAuth state', 400);
+	}
+	pendingFlows.delete(state);
+
+	const { handlers } = await getOAuthPlugin(flow.pluginId);
+	const tokens = await handlers.exchangeCode({
+		code,
+		redirectUri: flow.redirectUri,
+		config: flow.config,
+		env: flow.env
+	});
+
+	await saveToken(flow.userId, flow.pluginId, {
+		accessToken: tokens.accessToken,
+		refreshToken: tokens.refreshToken,
+		expiresAt: expiresInToDate(tokens.expiresIn),
+		scope: tokens.scope,
+		metadata: tokens.metadata
+	});
+	console.log(`[${flow.pluginId}] OAuth account connected for user ${flow.userId ?? 'anonymous'}`);
+
+	return { pluginId: flow.pluginId, userId: flow.userId };
+}
@@ -0,0 +1,167 @@
+/**
+ * Disk-backed PluginStorageAPI for the test playground
+ *
+ * Stands in for the core's MinIO storage. Files outlive a single tool call and are
+ * served back by /api/mock-files/mock-storage/<pluginId>/<fileName>.
+ *
+ * Layout under PLAYGROUND_STORAGE_DIR (default: .playground/storage):
+ *   files/<pluginId>/<fileName>        file contents
+ *   meta/<pluginId>/<fileName>.json    content type, size and upload date
+ */
+
+import { mkdir, readdir, readFile, rm, stat, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+import type { PluginStorageAPI } from '../../types';
+import { DATA_DIR } from './data-store';
+
+export const STORAGE_DIR = path.resolve(process.env.PLAYGROUND_STORAGE_DIR || path.join(DATA_DIR, 'storage'));
+
+const FILES_DIR = path.join(STORAGE_DIR, 'files');
+const META_DIR = path.join(STORAGE_DIR, 'meta');
+
+const URL_PREFIX = '/api/mock-files/mock-storage';
+
+const CONTENT_TYPES: Record<string, string> = {
+	jpg: 'image/jpeg',
+	jpeg: 'image/jpeg',
+	png: 'image/png',
+	gif: 'image/gif',
+	webp: 'image/webp',
+	svg: 'image/svg+xml',
+	pdf: 'application/pdf',
+	json: 'application/json',
+	txt: 'text/plain',
+	md: 'text/markdown',
+	csv: 'text/csv',
+	html: 'text/html',
+	mp3: 'audio/mpeg',
+	mp4: 'video/mp4'
+};
+
+interface StoredFileMeta {
+	contentType: string;
+	size: number;
+	uploadedAt: string;
+}
+
+export interface StoredFile extends StoredFileMeta {
+	pluginId: string;
+	fileName: string;
+	url: string;
+}
+
+function isValidPluginId(pluginId: string): boolean {
+	return /^[\w-]+$/.test(pluginId);
+}
+
+/**
+ * Resolves a file inside a plugin's storage folder, rejecting paths that escape it
+ */
+function resolveInside(root: string, pluginId: string, fileName: string): string {
+	const pluginRoot = path.join(root, pluginId);
+	const resolved = path.resolve(pluginRoot, fileName);
+	if (!isValidPluginId(pluginId) || !resolved.startsWith(pluginRoot + path.sep)) {
+		throw new Error(`Invalid storage path: ${pluginId}/${fileName}`);
+	}
+	return resolved;
+}
+
+function guessContentType(fileName: string): string {
+	const ext = path.extname(fileName).slice(1).toLowerCase();
+	return CONTENT_TYPES[ext] ?? 'application/octet-stream';
+}
+
+export function getStoredFileUrl(pluginId: string, fileName: string): string {
+	return `${URL_PREFIX}/${encodeURIComponent(pluginId)}/${fileName.split('/').map(encodeURIComponent).join('/')}`;
+}
+
+async function readMeta(pluginId: string, fileName: string): Promise<StoredFileMeta | null> {
+	try {
+		return JSON.parse(await readFile(resolveInside(META_DIR, pluginId, `${fileName}.json`), 'utf-8'));
+	} catch {
+		return null;
+	}
+}
+
+export async function storeFile(pluginId: string, fileName: string, buffer: Buffer, contentType: string): Promise<string> {
+	const filePath = resolveInside(FILES_DIR, pluginId, fileName);
+	const metaPath = resolveInside(META_DIR, pluginId, `${fileName}.json`);
+	const meta: StoredFileMeta = { contentType, size: buffer.length, uploadedAt: new Date().toISOString() };
+
+	await mkdir(path.dirname(filePath), { recursive: true });
+	await mkdir(path.dirname(metaPath), { recursive: true });
+	await writeFile(filePath, buffer);
+	await writeFile(metaPath, JSON.stringify(meta));
+
+	return getStoredFileUrl(pluginId, fileName);
+}
+
+export async function readStoredFile(
+	pluginId: string,
+	fileName: string
+): Promise<{ buffer: Buffer; contentType: string } | null> {
+	try {
+		const buffer = await readFile(resolveInside(FILES_DIR, pluginId, fileName));
+		const meta = await readMeta(pluginId, fileName);
+		return { buffer, contentType: meta?.contentType ?? guessContentType(fileName) };
+	} catch (error) {
+		if ((error as NodeJS.ErrnoException).code === 'ENOENT') return null;
+		throw error;
+	}
+}
+
+export async function deleteStoredFile(pluginId: string, fileName: string): Promise<void> {
+	await rm(resolveInside(FILES_DIR, pluginId, fileName), { force: true });
+	await rm(resolveInside(META_DIR, pluginId, `${fileName}.json`), { force: true });
+}
+
+async function listDirectory(dir: string): Promise<string[]> {
+	try {
+		const entries = await readdir(dir, { recursive: true, withFileTypes: true });
+		return entries
+			.filter((entry) => entry.isFile())
+			.map((entry) => path.relative(dir, path.join(entry.parentPath, entry.name)).split(path.sep).join('/'));
+	} catch (error) {
+		if ((error as NodeJS.ErrnoException).code === 'ENOENT') return [];
+		throw error;
+	}
+}
+
+/**
+ * Lists stored files, for one plugin or all of them, newest first
+ */
+export async function listStoredFiles(pluginId?: string): Promise<StoredFile[]> {
+	if (pluginId !== undefined && !isValidPluginId(pluginId)) {
+		throw new Error(`Invalid plugin id: ${pluginId}`);
+	}
+	const pluginIds = pluginId ? [pluginId] : await readdir(FILES_DIR).catch(() => [] as string[]);
+	const files: StoredFile[] = [];
+
+	for (const id of pluginIds) {
+		const pluginDir = path.join(FILES_DIR, id);
+		for (const fileName of await listDirectory(pluginDir)) {
+			const meta = (await readMeta(id, fileName)) ?? {
+				contentType: guessContentType(fileName),
+				size: (await stat(path.join(pluginDir, fileName))).size,
+				uploadedAt: new Date(0).toISOString()
+			};
+			files.push({ pluginId: id, fileName, url: getStoredFileUrl(id, fileName), ...meta });
+		}
+	}
+
+	return files.sort((a, b) => b.uploadedAt.localeCompare(a.uploadedAt));
+}
+
+/**
+ * Creates the PluginStorageAPI handed to a plugin through its context
+ */
+export function createPluginStorage(pluginId: string): PluginStorageAPI {
+	return {
+		uploadFile: async (fileName: string, buffer: Buffer, contentType: string): Promise<string> => {
+			const url = await storeFile(pluginId, fileName, buffer, contentType);
+			console.log(`[${pluginId}] File stored: ${fileName} (${buffer.length} bytes)`);
+			return url;
+		},
+		getFileUrl: (fileName: string): string => getStoredFileUrl(pluginId, fileName)
+	};
+}
@@ -0,0 +1,294 @@
+/**
+ * Declarative plugin test suites
+ *
+ * A plugin can ship `tests.json` next to its manifest.json:
+ *
+ *   {
+ *     "cases": [
+ *       {
+ *         "name": "returns the weather for Paris",
+ *         "tool": "get_weather",
+ *         "params": { "city": "Paris" },
+ *         "config": {}, "env": {}, "locale": "en",
+ *         "cassette": "replay",
+ *         "assert": [
+ *           { "path": "city", "equals": "Paris" },
+ *           { "path": "sources", "length": 3 },
+ *           { "path": "message", "matches": "^Meteo" }
+ *         ]
+ *       }
+ *     ]
+ *   }
+ *
+ * `env` values may reference process env vars as `${NAME}`. `expectError` (a regex)
+ * turns a case into a negative one. A result breaking the tool's outputSchema fails the case. Run them with `npm run test:plugins`.
+ */
+
+import { existsSync } from 'node:fs';
+import { readFile } from 'node:fs/promises';
+import path from 'node:path';
+import type { Locale, ToolConfigValues } from '../../types';
+import { CASSETTE_MODES, type CassetteMode } from './cassettes';
+import { expandEnvReferences } from './env-file';
+import { describeToolError } from './errors';
+import { LOCALES } from './plugin-context';
+import { executeTool, getPluginDirectory, getPlugins } from './plugin-loader';
+
+export const TESTS_FILE = 'tests.json';
+
+export interface PluginTestAssertion {
+	/** Dotted path into the result, e.g. `sources[0].url`; `$` or empty for the whole result */
+	path: string;
+	equals?: unknown;
+	/** Substring of a string, element of an array, or key/value subset of an object */
+	contains?: unknown;
+	/** Regular expression the value (a string) must match */
+	matches?: string;
+	/** Exact length of an array or string */
+	length?: number;
+	minLength?: number;
+	maxLength?: number;
+	exists?: boolean;
+}
+
+export interface PluginTestCase {
+	name: string;
+	tool: string;
+	params?: Record<string, unknown>;
+	config?: ToolConfigValues;
+	env?: Record<string, string>;
+	locale?: Locale;
+	cassette?: CassetteMode;
+	/** The run must fail with an error matching this regex (message, then one line per invalid field) */
+	expectError?: string;
+	assert?: PluginTestAssertion[];
+}
+
+export interface PluginTestResult {
+	pluginId: string;
+	name: string;
+	toolId: string;
+	passed: boolean;
+	durationMs: number;
+	failures: string[];
+}
+
+function fail(message: string): never {
+	throw new Error(message);
+}
+
+/**
+ * Reads and checks a plugin's tests.json; returns an empty list when the plugin has none
+ */
+export async function loadPluginTests(pluginDir: string): Promise<PluginTestCase[]> {
+	const filePath = path.join(pluginDir, TESTS_FILE);
+	if (!existsSync(filePath)) return [];
+
+	const data = JSON.parse(await readFile(filePath, 'utf-8')) as { cases?: unknown };
+	if (!Array.isArray(data.cases)) fail(`${TESTS_FILE}: "cases" must be an array`);
+
+	return data.cases.map((value, index) => {
+		const testCase = value as PluginTestCase;
+		const label = `${TESTS_FILE} case #${index + 1}`;
+		if (typeof testCase?.name !== 'string' || !testCase.name) fail(`${label}: "name" is required`);
+		if (typeof testCase.tool !== 'string' || !testCase.tool) fail(`${label}: "tool" is required`);
+		if (testCase.locale !== undefined && !LOCALES.includes(testCase.locale)) {
+			fail(`${label}: "locale" must be one of ${LOCALES.join(', ')}`);
+		}
+		if (testCase.cassette !== undefined && !CASSETTE_MODES.includes(testCase.cassette)) {
+			fail(`${label}: "cassette" must be one of ${CASSETTE_MODES.join(', ')}`);
+		}
+		if (testCase.assert !== undefined && !Array.isArray(testCase.assert)) fail(`${label}: "assert" must be an array`);
+		return testCase;
+	});
+}
+
+/**
+ * Reads a dotted/bracketed path (`a.b[0].c`) out of a value
+ */
+export function getAtPath(value: unknown, jsonPath: string): unknown {
+	const segments = jsonPath
+		.replace(/^\$\.?/, '')
+		.split(/\.|\[(\d+)\]/)
+		.filter((segment) => segment !== undefined && segment !== '');
+
+	let current = value;
+	for (const segment of segments) {
+		if (current === null || typeof current !== 'object') return undefined;
+		current = (current as Record<string, unknown>)[segment];
+	}
+	return current;
+}
+
+function isEqual(a: unknown, b: unknown): boolean {
+	return JSON.stringify(a) === JSON.stringify(b);
+}
+
+function contains(value: unknown, expected: unknown): boolean {
+	if (typeof value === 'string') return typeof expected === 'string' && value.includes(expected);
+	if (Array.isArray(value)) return value.some((item) => isEqual(item, expected) || contains(item, expected));
+	if (value && typeof value === 'object' && expected && typeof expected === 'object') {
+		return Object.entries(expected).every(([key, v]) => isEqual((value as Record<string, unknown>)[key], v));
+	}
+	return false;
+}
+
+function show(value: unknown): string {
+	const text = JSON.stringify(value) ?? 'undefined';
+	return text.length > 120 ? `${text.slice(0, 117)}...` : text;
+}
+
+/**
+ * Returns a failure message per unmet expectation of the assertion
+ */
+export function checkAssertion(result: unknown, assertion: PluginTestAssertion): string[] {
+	const label = assertion.path || '$';
+	const value = getAtPath(result, assertion.path ?? '');
+	const failures: string[] = [];
+	const length = typeof value === 'string' || Array.isArray(value) ? value.length : undefined;
+
+	if (assertion.exists !== undefined && (value !== undefined) !== assertion.exists) {
+		failures.push(`${label}: expected to ${assertion.exists ? 'exist' : 'be absent'}, got ${show(value)}`);
+	}
+	if ('equals' in assertion && !isEqual(value, assertion.equals)) {
+		failures.push(`${label}: expected ${show(assertion.equals)}, got ${show(value)}`);
+	}
+	if ('contains' in assertion && !contains(value, assertion.contains)) {
+		failures.push(`${label}: expected to contain ${show(assertion.contains)}, got ${show(value)}`);
+	}
+	if (assertion.matches !== undefined && (typeof value !== 'string' || !new RegExp(assertion.matches).test(value))) {
+		failures.push(`${label}: expected to match /${assertion.matches}/, got ${show(value)}`);
+	}
+	if (assertion.length !== undefined && length !== assertion.length) {
+		failures.push(`${label}: expected length ${assertion.length}, got ${length ?? show(value)}`);
+	}
+	if (assertion.minLength !== undefined && (length === undefined || length < assertion.minLength)) {
+		failures.push(`${label}: expected length >= ${assertion.minLength}, got ${length ?? show(value)}`);
+	}
+	if (assertion.maxLength !== undefined && (length === undefined || length > assertion.maxLength)) {
+		failures.push(`${label}: expected length <= ${assertion.maxLength}, got ${length ?? show(value)}`);
+	}
+	return failures;
+}
+
+async function runCase(pluginId: string, testCase: PluginTestCase): Promise<PluginTestResult> {
+	const started = performance.now();
+	const base = { pluginId, name: testCase.name, toolId: testCase.tool };
+	const failures: string[] = [];
+
+	try {
+		const { result, execution } = await executeTool({
+			pluginId,
+			toolId: testCase.tool,
+			params: testCase.params ?? {},
+			env: expandEnvReferences(testCase.env ?? {}),
+			config: testCase.config ?? {},
+			context: testCase.locale ? { locale: testCase.locale } : undefined,
+			cassette: testCase.cassette
+		});
+		if (testCase.expectError !== undefined) {
+			failures.push(`expected an error matching /${testCase.expectError}/, but the tool succeeded`);
+		}
+		for (const error of execution.outputErrors ?? []) {
+			failures.push(`output schema: ${error.field || '(result)'} ${error.message}`);
+		}
+		for (const assertion of testCase.assert ?? []) {
+			failures.push(...checkAssertion(result, assertion));
+		}
+	} catch (error) {
+		const message = describeToolError(error);
+		if (testCase.expectError === undefined) {
+			failures.push(`tool failed: ${message}`);
+		} else if (!new RegExp(testCase.expectError).test(message)) {
+			failures.push(`expected an error matching /${testCase.expectError}/, got: ${message}`);
+		}
+	}
+
+	return { ...base, passed: failures.length === 0, durationMs: Math.round(performance.now() - started), failures };
+}
+
+/**
+ * Runs the test suites of every loaded plugin, or only of the given ones
+ */
+export async function runPluginTests(pluginIds?: string[]): Promise<PluginTestResult[]> {
+	const results: PluginTestResult[] = [];
+	const plugins = (await getPlugins()).filter((p) => !pluginIds?.length || pluginIds.includes(p.id));
+
+	for (const plugin of plugins) {
+		let cases: PluginTestCase[];
+		try {
+			cases = await loadPluginTests(await getPluginDirectory(plugin.id));
+		} catch (error) {
+			const message = error instanceof Error ? error.message : String(error);
+			results.push({ pluginId: plugin.id, name: TESTS_FILE, toolId: '', passed: false, durationMs: 0, failures: [message] });
+			continue;
+		}
+
+		for (const testCase of cases) {
+			results.push(await runCase(plugin.id, testCase));
+		}
+	}
+
+	return results;
+}
+
+function escapeXml(text: string): string {
+	return text.replace(/[<>&'"]/g, (c) => ({ '<': '&lt;', '>': '&gt;', '&': '&amp;', "'": '&apos;', '"': '&quot;' })[c]!);
+}
+
+/**
+ * TAP version 13 report
+ */
+export function formatTap(results: PluginTestResult[]): string {
+	const lines = ['TAP version 13', `1..${results.length}`];
+	results.forEach((result, index) => {
+		const status = result.passed ? 'ok' : 'not ok';
+		lines.push(`${status} ${index + 1} - ${result.pluginId} > ${result.name}`);
+		if (!result.passed) {
+			lines.push('  ---', `  tool: ${result.toolId}`, '  failures:');
+			for (const failure of result.failures) lines.push(`    - ${JSON.stringify(failure)}`);
+			lines.push('  ...');
+		}
+	});
+	const failed = results.filter((r) => !r.passed).length;
+	lines.push(`# tests ${results.length}`, `# pass ${results.length - failed}`, `# fail ${failed}`);
+	return lines.join('\n') + '\n';
+}
+
+/**
+ * JUnit XML report, one <testsuite> per plugin
+ */
+export function formatJUnit(results: PluginTestResult[]): string {
+	const byPlugin = new Map<string, PluginTestResult[]>();
+	for (const result of results) {
+		byPlugin.set(result.pluginId, [...(byPlugin.get(result.pluginId) ?? []), result]);
+	}
+
+	const failedTotal = results.filter((r) => !r.passed).length;
+	const lines = [
+		'<?xml version="1.0" encoding="UTF-8"?>',
+		`<testsuites name="plugins" tests="${results.length}" failures="${failedTotal}">`
+	];
+	for (const [pluginId, suite] of byPlugin) {
+		const failed = suite.filter((r) => !r.passed).length;
+		const time = suite.reduce((sum, r) => sum + r.durationMs, 0) / 1000;
+		lines.push(
+			`  <testsuite name="${escapeXml(pluginId)}" tests="${suite.length}" failures="${failed}" time="${time}">`
+		);
+		for (const result of suite) {
+			const attributes = `name="${escapeXml(result.name)}" classname="${escapeXml(`${pluginId}.${result.toolId}`)}" time="${result.durationMs / 1000}"`;
+			if (result.passed) {
+				lines.push(`    <testcase ${attributes}/>`);
+			} else {
+				lines.push(
+					`    <testcase ${attributes}>`,
+					`      <failure message="${escapeXml(result.failures[0] ?? 'failed')}">${escapeXml(result.failures.join('\n'))}</failure>`,
+					'    </testcase>'
+				);
+			}
+		}
+		lines.push('  </testsuite>');
+	}
+	lines.push('</testsuites>');
+	return lines.join('\n') + '\n';
+}
@@ -0,0 +1,150 @@
+/**
+ * Local implementation of PluginTokensAPI
+ *
+ * Tokens are stored in plaintext in .playground/tokens.json, scoped to (userId, pluginId).
+ * `get()` refreshes expired tokens through the plugin's `oauthHandlers.refresh`, like the core.
+ */
+
+import type { PluginExport, PluginTokenPayload, PluginTokensAPI, ToolConfigValues } from '../../types';
+import { readJsonFile, updateJsonFile } from './data-store';
+
+const TOKENS_FILE = 'tokens.json';
+
+// Refresh slightly before the real expiry so a token never expires mid-call
+const EXPIRY_MARGIN_MS = 30_000;
+
+interface StoredToken {
+	accessToken: string;
+	refreshToken?: string;
+	expiresAt?: string;
+	scope?: string;
+	metadata?: Record<string, unknown>;
+	updatedAt: string;
+}
+
+type TokenFile = Record<string, StoredToken>;
+
+export interface PluginTokenStatus {
+	connected: boolean;
+	expiresAt?: string;
+	scope?: string;
+	refreshable: boolean;
+}
+
+export interface CreatePluginTokensOptions {
+	userId: string | null | undefined;
+	pluginId: string;
+	/** Owner of the OAuth handlers, used to refresh expired tokens */
+	plugin?: PluginExport;
+	config: ToolConfigValues;
+	env: Record<string, string | undefined>;
+}
+
+function tokenKey(userId: string | null | undefined, pluginId: string): string {
+	return `${userId ?? 'anonymous'}:${pluginId}`;
+}
+
+function toStored(tokens: PluginTokenPayload): StoredToken {
+	return {
+		accessToken: tokens.accessToken,
+		refreshToken: tokens.refreshToken,
+		expiresAt: tokens.expiresAt?.toISOString(),
+		scope: tokens.scope,
+		metadata: tokens.metadata,
+		updatedAt: new Date().toISOString()
+	};
+}
+
+function toPayload(stored: StoredToken): PluginTokenPayload {
+	return {
+		accessToken: stored.accessToken,
+		refreshToken: stored.refreshToken,
+		expiresAt: stored.expiresAt ? new Date(stored.expiresAt) : undefined,
+		scope: stored.scope,
+		metadata: stored.metadata
+	};
+}
+
+function isExpired(stored: StoredToken): boolean {
+	return !!stored.expiresAt && Date.parse(stored.expiresAt) - EXPIRY_MARGIN_MS <= Date.now();
+}
+
+export function expiresInToDate(expiresIn: number | undefined): Date | undefined {
+	return expiresIn !== undefined ? new Date(Date.now() + expiresIn * 1000) : undefined;
+}
+
+export async function saveToken(
+	userId: string | null | undefined,
+	pluginId: string,
+	tokens: PluginTokenPayload
+): Promise<void> {
+	await updateJsonFile<TokenFile>(TOKENS_FILE, {}, (file) => {
+		file[tokenKey(userId, pluginId)] = toStored(tokens);
+	});
+}
+
+export async function deleteToken(userId: string | null | undefined, pluginId: string): Promise<void> {
+	await updateJsonFile<TokenFile>(TOKENS_FILE, {}, (file) => {
+		delete file[tokenKey(userId, pluginId)];
+	});
+}
+
+export async function getTokenStatus(userId: string | null | undefined, pluginId: string): Promise<PluginTokenStatus> {
+	const file = await readJsonFile<TokenFile>(TOKENS_FILE, {});
+	const stored = file[tokenKey(userId, pluginId)];
+	if (!stored) {
+		return { connected: false, refreshable: false };
+	}
+	return {
+		connected: true,
+		expiresAt: stored.expiresAt,
+		scope: stored.scope,
+		refreshable: !!stored.refreshToken
+	};
+}
+
+async function refreshToken(options: CreatePluginTokensOptions, stored: StoredToken): Promise<PluginTokenPayload | null> {
+	const { userId, pluginId, plugin, config, env } = options;
+	const refresh = plugin?.oauthHandlers?.refresh;
+
+	if (!refresh || !stored.refreshToken) {
+		console.warn(`[${pluginId}] OAuth token expired and cannot be refreshed`);
+		return null;
+	}
+
+	try {
+		const refreshed = await refresh({ refreshToken: stored.refreshToken, config, env });
+		const tokens: PluginTokenPayload = {
+			accessToken: refreshed.accessToken,
+			refreshToken: refreshed.refreshToken ?? stored.refreshToken,
+			expiresAt: expiresInToDate(refreshed.expiresIn),
+			scope: refreshed.scope ?? stored.scope,
+			metadata: stored.metadata
+		};
+		await saveToken(userId, pluginId, tokens);
+		console.log(`[${pluginId}] OAuth token refreshed`);
+		return tokens;
+	} catch (error) {
+		console.error(`[${pluginId}] OAuth token refresh failed:`, error instanceof Error ? error.message : error);
+		return null;
+	}
+}
+
+/**
+ * Creates the PluginTokensAPI handed to a plugin through its context
+ */
+export function createPluginTokens(options: CreatePluginTokensOptions): PluginTokensAPI {
+	const { userId, pluginId } = options;
+
+	return {
+		save: (tokens: PluginTokenPayload) => saveToken(userId, pluginId, tokens),
+		get: async (): Promise<PluginTokenPayload | null> => {
+			const file = await readJsonFile<TokenFile>(TOKENS_FILE, {});
+			const stored = file[tokenKey(userId, pluginId)];
+			if (!stored) return null;
+			if (isExpired(stored)) return refreshToken(options, stored);
+			return toPayload(stored);
+		},
+		delete: () => deleteToken(userId, pluginId)
+	};
+}
@@ -0,0 +1,326 @@
+/**
+ * Plugin contract validator
+ *
+ * Checks that a plugin's manifest matches its PluginExport, so broken manifests
+ * are caught in the playground before they reach AI Playground.
+ */
+
+import type { PluginExport, PluginManifest, PluginToolDeclaration, ToolConfigProperty } from '../../types';
+import type { ConfigEnvFallbacks } from './plugin-config';
+
+export type DiagnosticSeverity = 'error' | 'warning';
+
+export interface PluginDiagnostic {
+	severity: DiagnosticSeverity;
+	message: string;
+	/** Set when the diagnostic concerns a single tool */
+	toolId?: string;
+	/** Set when the diagnostic concerns a single configSchema property */
+	configKey?: string;
+}
+
+const REQUIRED_MANIFEST_FIELDS = ['id', 'name', 'version', 'description', 'author', 'license'] as const;
+const CONFIG_PROPERTY_TYPES = ['string', 'number', 'boolean', 'array'];
+const INSTRUCTIONS_PREFIX = /^\s*-\s*([\w-]+)\s*:/;
+
+function findDuplicates(values: string[]): string[] {
+	return [...new Set(values.filter((value, index) => values.indexOf(value) !== index))];
+}
+
+function validateManifestFields(manifest: PluginManifest, diagnostics: PluginDiagnostic[]) {
+	for (const field of REQUIRED_MANIFEST_FIELDS) {
+		const value = manifest[field];
+		if (typeof value !== 'string' || value.trim() === '') {
+			diagnostics.push({ severity: 'error', message: `manifest.${field} is required` });
+		}
+	}
+
+	if (typeof manifest.version === 'string' && !/^\d+\.\d+\.\d+/.test(manifest.version)) {
+		diagnostics.push({ severity: 'warning', message: `manifest.version "${manifest.version}" is not semver` });
+	}
+
+	if (typeof manifest.id === 'string' && manifest.id.includes('_')) {
+		diagnostics.push({
+			severity: 'warning',
+			message: `manifest.id "${manifest.id}" contains "_", which makes pluginId_toolId tool names ambiguous`
+		});
+	}
+
+	const overlapping = (manifest.requiredEnvVars ?? []).filter((v) => manifest.optionalEnvVars?.includes(v));
+	for (const name of overlapping) {
+		diagnostics.push({ severity: 'warning', message: `${name} is listed in both requiredEnvVars and optionalEnvVars` });
+	}
+
+	if (manifest.i18n && !manifest.i18n.supportedLocales.includes(manifest.i18n.defaultLocale)) {
+		diagnostics.push({
+			severity: 'error',
+			message: `i18n.defaultLocale "${manifest.i18n.defaultLocale}" is not in i18n.supportedLocales`
+		});
+	}
+}
+
+function validateToolIds(plugin: PluginExport, diagnostics: PluginDiagnostic[]) {
+	const declaredIds = plugin.manifest.tools.map((t) => t.id);
+	const definedIds = plugin.tools.map((t) => t.id);
+
+	for (const id of findDuplicates(declaredIds)) {
+		diagnostics.push({ severity: 'error', toolId: id, message: `tool "${id}" is declared twice in manifest.tools` });
+	}
+	for (const id of findDuplicates(definedIds)) {
+		diagnostics.push({ severity: 'error', toolId: id, message: `tool "${id}" is defined twice in the plugin export` });
+	}
+
+	for (const id of declaredIds.filter((id) => !definedIds.includes(id))) {
+		diagnostics.push({
+			severity: 'error',
+			toolId: id,
+			message: `tool "${id}" is declared in manifest.tools but has no PluginToolDefinition`
+		});
+	}
+	for (const id of definedIds.filter((id) => !declaredIds.includes(id))) {
+		diagnostics.push({
+			severity: 'error',
+			toolId: id,
+			message: `tool "${id}" has a PluginToolDefinition but is missing from manifest.tools`
+		});
+	}
+}
+
+function validateInstructionsText(
+	text: string,
+	expectedName: string,
+	label: string,
+	toolId: string,
+	diagnostics: PluginDiagnostic[]
+) {
+	const match = text.match(INSTRUCTIONS_PREFIX);
+	if (!match) {
+		diagnostics.push({
+			severity: 'warning',
+			toolId,
+			message: `${label} should start with "- ${expectedName}:"`
+		});
+	} else if (match[1] !== expectedName) {
+		diagnostics.push({
+			severity: 'error',
+			toolId,
+			message: `${label} refers to "${match[1]}", expected "${expectedName}"`
+		});
+	}
+}
+
+function validateInstructions(manifest: PluginManifest, tool: PluginToolDeclaration, diagnostics: PluginDiagnostic[]) {
+	const expectedName = `${manifest.id}_${tool.id}`;
+	const instructions = tool.systemPromptInstructions;
+
+	if (typeof instructions === 'string') {
+		validateInstructionsText(instructions, expectedName, 'systemPromptInstructions', tool.id, diagnostics);
+		return;
+	}
+	if (!instructions || typeof instructions !== 'object') {
+		diagnostics.push({ severity: 'error', toolId: tool.id, message: 'systemPromptInstructions is required' });
+		return;
+	}
+
+	const supportedLocales = manifest.i18n?.supportedLocales;
+	if (supportedLocales) {
+		for (const locale of supportedLocales.filter((l) => !(l in instructions))) {
+			diagnostics.push({
+				severity: 'error',
+				toolId: tool.id,
+				message: `systemPromptInstructions is missing locale "${locale}" listed in i18n.supportedLocales`
+			});
+		}
+		for (const locale of Object.keys(instructions).filter((l) => !supportedLocales.includes(l))) {
+			diagnostics.push({
+				severity: 'warning',
+				toolId: tool.id,
+				message: `systemPromptInstructions has locale "${locale}" which is not in i18n.supportedLocales`
+			});
+		}
+	}
+
+	for (const [locale, text] of Object.entries(instructions)) {
+		validateInstructionsText(text, expectedName, `systemPromptInstructions.${locale}`, tool.id, diagnostics);
+	}
+}
+
+const OUTPUT_SCHEMA_TYPES = ['string', 'number', 'integer', 'boolean', 'object', 'array', 'null'];
+
+function isSchemaObject(value: unknown): value is Record<string, unknown> {
+	return !!value && typeof value === 'object' && !Array.isArray(value);
+}
+
+// Only the shape is checked: the keywords json-schema.ts does not know are ignored at run time anyway
+function validateOutputSchemas(plugin: PluginExport, diagnostics: PluginDiagnostic[]) {
+	for (const declaration of plugin.manifest.tools) {
+		const definition = plugin.tools.find((t) => t.id === declaration.id);
+		const schemas = [
+			{ label: `manifest.tools[${declaration.id}].outputSchema`, schema: declaration.outputSchema },
+			{ label: 'PluginToolDefinition.outputSchema', schema: definition?.outputSchema }
+		];
+
+		for (const { label, schema } of schemas) {
+			if (schema === undefined) continue;
+			if (!isSchemaObject(schema)) {
+				diagnostics.push({ severity: 'error', toolId: declaration.id, message: `${label} must be a JSON Schema object` });
+				continue;
+			}
+			const types = Array.isArray(schema.type) ? schema.type : schema.type === undefined ? [] : [schema.type];
+			for (const type of types.filter((t) => !OUTPUT_SCHEMA_TYPES.includes(t as string))) {
+				diagnostics.push({
+					severity: 'error',
+					toolId: declaration.id,
+					message: `${label} has unsupported type ${JSON.stringify(type)}`
+				});
+			}
+		}
+
+		if (declaration.outputSchema !== undefined && definition?.outputSchema !== undefined) {
+			diagnostics.push({
+				severity: 'warning',
+				toolId: declaration.id,
+				message: 'outputSchema is set in both the manifest and the PluginToolDefinition; the definition wins'
+			});
+		}
+	}
+}
+
+function matchesPropertyType(property: ToolConfigProperty, value: unknown): boolean {
+	switch (property.type) {
+		case 'string':
+			return typeof value === 'string';
+		case 'number':
+			return typeof value === 'number' && Number.isFinite(value);
+		case 'boolean':
+			return typeof value === 'boolean';
+		case 'array':
+			return Array.isArray(value) && value.every((item) => typeof item === 'string');
+		default:
+			return false;
+	}
+}
+
+function validateConfigProperty(key: string, property: ToolConfigProperty, diagnostics: PluginDiagnostic[]) {
+	const report = (severity: DiagnosticSeverity, message: string) =>
+		diagnostics.push({ severity, configKey: key, message: `configSchema.properties.${key}: ${message}` });
+
+	if (!CONFIG_PROPERTY_TYPES.includes(property.type)) {
+		report('error', `unsupported type "${property.type}"`);
+		return;
+	}
+	if (!property.title) {
+		report('warning', 'title is missing');
+	}
+
+	const { minimum, maximum } = property;
+	if (minimum !== undefined && maximum !== undefined && minimum > maximum) {
+		report('error', `minimum (${minimum}) is greater than maximum (${maximum})`);
+	}
+
+	if (property.enum) {
+		const enumType = property.type === 'number' ? 'number' : 'string';
+		for (const option of property.enum.filter((o) => typeof o !== enumType)) {
+			report('error', `enum value ${JSON.stringify(option)} is not a ${enumType}`);
+		}
+		for (const label of Object.keys(property.enumLabels ?? {})) {
+			if (!property.enum.map(String).includes(label)) {
+				report('warning', `enumLabels has "${label}" which is not an enum value`);
+			}
+		}
+	} else if (property.enumLabels) {
+		report('warning', 'enumLabels is set but enum is not');
+	}
+
+	const widget = property['x-ui-widget'];
+	if ((widget === 'select' || widget === 'radio' || widget === 'icon-select' || widget === 'image-select') && !property.enum) {
+		report('warning', `x-ui-widget "${widget}" needs an enum`);
+	}
+	if (widget === 'slider' && (minimum === undefined || maximum === undefined)) {
+		report('warning', 'x-ui-widget "slider" needs minimum and maximum');
+	}
+
+	if (property.default === undefined) return;
+
+	if (!matchesPropertyType(property, property.default)) {
+		report('error', `default ${JSON.stringify(property.default)} is not a valid ${property.type}`);
+		return;
+	}
+	if (property.enum && !property.enum.includes(property.default as string | number)) {
+		report('error', `default ${JSON.stringify(property.default)} is not one of the enum values`);
+	}
+	if (typeof property.default === 'number') {
+		if (minimum !== undefined && property.default < minimum) {
+			report('error', `default ${property.default} is below minimum ${minimum}`);
+		}
+		if (maximum !== undefined && property.default > maximum) {
+			report('error', `default ${property.default} is above maximum ${maximum}`);
+		}
+	}
+}
+
+function validateConfigSchema(manifest: PluginManifest, diagnostics: PluginDiagnostic[]) {
+	const schema = manifest.configSchema;
+	if (!schema) return;
+
+	if (schema.type !== 'object') {
+		diagnostics.push({ severity: 'error', message: 'configSchema.type must be "object"' });
+	}
+	if (!schema.properties || typeof schema.properties !== 'object') {
+		diagnostics.push({ severity: 'error', message: 'configSchema.properties is required' });
+		return;
+	}
+
+	for (const key of schema.required ?? []) {
+		if (!(key in schema.properties)) {
+			diagnostics.push({
+				severity: 'error',
+				configKey: key,
+				message: `configSchema.required lists "${key}" which is not a property`
+			});
+		}
+	}
+
+	for (const [key, property] of Object.entries(schema.properties)) {
+		validateConfigProperty(key, property, diagnostics);
+	}
+}
+
+function validateEnvFallbacks(manifest: PluginManifest, envFallbacks: ConfigEnvFallbacks, diagnostics: PluginDiagnostic[]) {
+	const envVars = [...(manifest.requiredEnvVars ?? []), ...(manifest.optionalEnvVars ?? [])];
+	for (const [key, variable] of Object.entries(envFallbacks)) {
+		const report = (message: string) =>
+			diagnostics.push({ severity: 'warning', configKey: key, message: `env-fallbacks.json: ${message}` });
+		if (!manifest.configSchema?.properties?.[key]) {
+			report(`"${key}" is not a configSchema property`);
+		}
+		if (!envVars.includes(variable)) {
+			report(`"${variable}" is not in requiredEnvVars or optionalEnvVars`);
+		}
+	}
+}
+
+/**
+ * Validates a loaded plugin against the plugin contract, and its env-fallbacks.json when it has one
+ */
+export function validatePlugin(plugin: PluginExport, envFallbacks: ConfigEnvFallbacks = {}): PluginDiagnostic[] {
+	const diagnostics: PluginDiagnostic[] = [];
+	const { manifest } = plugin;
+
+	validateManifestFields(manifest, diagnostics);
+
+	if (!Array.isArray(manifest.tools)) {
+		diagnostics.push({ severity: 'error', message: 'manifest.tools must be an array' });
+		return diagnostics;
+	}
+
+	validateToolIds(plugin, diagnostics);
+	for (const tool of manifest.tools) {
+		validateInstructions(manifest, tool, diagnostics);
+	}
+	validateOutputSchemas(plugin, diagnostics);
+	validateConfigSchema(manifest, diagnostics);
+	validateEnvFallbacks(manifest, envFallbacks, diagnostics);
+
+	return diagnostics;
+}
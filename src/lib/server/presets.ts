@@ -0,0 +1,132 @@
+/**
+ * Parameter presets
+ *
+ * Named params + config for a tool, stored in the plugin folder so they are versioned
+ * with the plugin and shared across the team:
+ *
+ *   plugins/<pluginId>/presets/<toolId>/<slug>.json
+ *   { "name": "Paris", "description": "...", "params": { "city": "Paris" }, "config": {} }
+ *
+ * Plugin authors can ship them as example invocations of their tools.
+ */
+
+import { existsSync } from 'node:fs';
+import { mkdir, readdir, readFile, rm, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+import type { ToolConfigValues } from '../../types';
+import { PlaygroundError } from './errors';
+import { getPlugin, getPluginDirectory } from './plugin-loader';
+
+export const PRESETS_DIR = 'presets';
+
+export interface ToolPreset {
+	/** File name without .json, derived from the name */
+	slug: string;
+	name: string;
+	description?: string;
+	params: Record<string, unknown>;
+	config?: ToolConfigValues;
+}
+
+const SLUG_PATTERN = /^[a-z0-9][a-z0-9-]*$/;
+
+export function slugify(name: string): string {
+	return name
+		.normalize('NFD')
+		.replace(/[\u0300-\u036f]/g, '')
+		.toLowerCase()
+		.replace(/[^a-z0-9]+/g, '-')
+		.replace(/^-+|-+$/g, '');
+}
+
+/**
+ * Resolves the presets folder of a tool, rejecting unknown plugins and tools so ids
+ * can't escape the plugins directory
+ */
+async function getPresetsDirectory(pluginId: string, toolId: string): Promise<string> {
+	const plugin = await getPlugin(pluginId);
+	if (!plugin) throw new PlaygroundError(`Plugin not found: ${pluginId}`, 404);
+	if (!plugin.tools.some((t) => t.id === toolId)) {
+		throw new PlaygroundError(`Tool not found: ${toolId} in plugin ${pluginId}`, 404);
+	}
+	return path.join(await getPluginDirectory(pluginId), PRESETS_DIR, toolId);
+}
+
+function presetPath(directory: string, slug: string): string {
+	if (!SLUG_PATTERN.test(slug)) throw new PlaygroundError(`Invalid preset slug: ${slug}`, 400);
+	return path.join(directory, `${slug}.json`);
+}
+
+/**
+ * Presets of a tool sorted by name; unreadable files are skipped with a warning
+ */
+export async function listPresets(pluginId: string, toolId: string): Promise<ToolPreset[]> {
+	const directory = await getPresetsDirectory(pluginId, toolId);
+	if (!existsSync(directory)) return [];
+
+	const presets: ToolPreset[] = [];
+	for (const file of (await readdir(directory)).filter((f) => f.endsWith('.json')).sort()) {
+		try {
+			const data = JSON.parse(await readFile(path.join(directory, file), 'utf-8'));
+			if (!data || typeof data.params !== 'object' || Array.isArray(data.params)) {
+				throw new Error('"params" must be an object');
+			}
+			const slug = file.slice(0, -'.json'.length);
+			presets.push({
+				slug,
+				name: typeof data.name === 'string' && data.name ? data.name : slug,
+				description: data.description,
+				params: data.params,
+				config: data.config
+			});
+		} catch (error) {
+			console.warn(`[presets] Skipping ${pluginId}/${PRESETS_DIR}/${toolId}/${file}: ${(error as Error).message}`);
+		}
+	}
+	return presets.sort((a, b) => a.name.localeCompare(b.name));
+}
+
+/**
+ * Writes a preset, replacing any preset with the same slug
+ */
+export async function savePreset(
+	pluginId: string,
+	toolId: string,
+	preset: Omit<ToolPreset, 'slug'>
+): Promise<ToolPreset> {
+	const name = typeof preset.name === 'string' ? preset.name.trim() : '';
+	if (!name) throw new PlaygroundError('Preset name is required', 400);
+	if (!preset.params || typeof preset.params !== 'object' || Array.isArray(preset.params)) {
+		throw new PlaygroundError('Preset params must be an object', 400);
+	}
+
+	const slug = slugify(name);
+	if (!slug) throw new PlaygroundError('Preset name must contain letters or digits', 400);
+
+	const directory = await getPresetsDirectory(pluginId, toolId);
+	const saved: ToolPreset = {
+		slug,
+		name,
+		description: (typeof preset.description === 'string' && preset.description.trim()) || undefined,
+		params: preset.params,
+		config: preset.config && Object.keys(preset.config).length > 0 ? preset.config : undefined
+	};
+
+	const { slug: _slug, ...content } = saved;
+	await mkdir(directory, { recursive: true });
+	await writeFile(presetPath(directory, slug), JSON.stringify(content, null, 2) + '\n');
+	return saved;
+}
+
+export async function deletePreset(pluginId: string, toolId: string, slug: string): Promise<void> {
+	const directory = await getPresetsDirectory(pluginId, toolId);
+	await rm(presetPath(directory, slug), { force: true });
+}
+
+/**
+ * Looks a preset up by slug or by name
+ */
+export async function findPreset(pluginId: string, toolId: string, slugOrName: string): Promise<ToolPreset | undefined> {
+	const presets = await listPresets(pluginId, toolId);
+	return presets.find((p) => p.slug === slugOrName) ?? presets.find((p) => p.name === slugOrName);
+}
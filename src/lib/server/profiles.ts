@@ -0,0 +1,151 @@
+/**
+ * Named profiles
+ *
+ * A profile ("local", "staging", "production"...) keeps env values and per-plugin config in
+ * .playground/profiles.json, so switching between accounts doesn't mean typing keys and
+ * settings again. The env values of a profile are read over `.env.<name>` when that file
+ * exists (see server-env). Profiles are exported and imported as JSON files:
+ *
+ *   { "profiles": [{ "name": "staging", "env": { "EXA_API_KEY": "..." }, "config": { "exa": { ... } } }] }
+ */
+
+import type { ToolConfigValues } from '../../types';
+import { readJsonFile, updateJsonFile } from './data-store';
+import { PlaygroundError } from './errors';
+
+const PROFILES_FILE = 'profiles.json';
+
+export const PROFILE_NAME_PATTERN = /^[\w-]+$/;
+
+// .env.example documents the variables, it is not a profile
+export const RESERVED_PROFILE_NAMES = ['example'];
+
+export interface Profile {
+	name: string;
+	/** Env values, read over the server env of the playground */
+	env: Record<string, string>;
+	/** Config values by plugin id */
+	config: Record<string, ToolConfigValues>;
+	updatedAt: string;
+}
+
+/**
+ * Changes to a profile: env values replace the stored ones (an empty value removes the
+ * variable), config replaces the stored config of each plugin given
+ */
+export interface ProfileUpdate {
+	name: string;
+	env?: Record<string, string>;
+	config?: Record<string, ToolConfigValues>;
+}
+
+export function assertProfileName(name: unknown): asserts name is string {
+	if (typeof name !== 'string' || !PROFILE_NAME_PATTERN.test(name) || RESERVED_PROFILE_NAMES.includes(name)) {
+		throw new PlaygroundError(`Invalid profile name: ${String(name)} (letters, digits, "-" and "_")`, 400);
+	}
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+	return !!value && typeof value === 'object' && !Array.isArray(value);
+}
+
+function parseEnv(name: string, env: unknown): Record<string, string> {
+	if (env === undefined) return {};
+	if (!isRecord(env) || Object.values(env).some((value) => typeof value !== 'string')) {
+		throw new PlaygroundError(`Profile ${name}: "env" must map variable names to strings`, 400);
+	}
+	return env as Record<string, string>;
+}
+
+function parseConfig(name: string, config: unknown): Record<string, ToolConfigValues> {
+	if (config === undefined) return {};
+	if (!isRecord(config) || !Object.values(config).every(isRecord)) {
+		throw new PlaygroundError(`Profile ${name}: "config" must map plugin ids to config objects`, 400);
+	}
+	return config as Record<string, ToolConfigValues>;
+}
+
+/**
+ * Stored profiles sorted by name
+ */
+export async function listProfiles(): Promise<Profile[]> {
+	const profiles = await readJsonFile<Profile[]>(PROFILES_FILE, []);
+	return profiles.sort((a, b) => a.name.localeCompare(b.name));
+}
+
+export async function getProfile(name: string): Promise<Profile | undefined> {
+	return (await readJsonFile<Profile[]>(PROFILES_FILE, [])).find((p) => p.name === name);
+}
+
+/**
+ * Config stored in a profile for a plugin ({} without a profile)
+ */
+export async function getProfileConfig(name: string | null | undefined, pluginId: string): Promise<ToolConfigValues> {
+	if (!name) return {};
+	return (await getProfile(name))?.config[pluginId] ?? {};
+}
+
+/**
+ * Creates a profile or merges changes into it
+ */
+export async function saveProfile(update: ProfileUpdate): Promise<Profile> {
+	assertProfileName(update.name);
+	const env = parseEnv(update.name, update.env);
+	const config = parseConfig(update.name, update.config);
+
+	let saved: Profile | undefined;
+	await updateJsonFile<Profile[]>(PROFILES_FILE, [], (profiles) => {
+		const existing = profiles.find((p) => p.name === update.name);
+		saved = {
+			name: update.name,
+			env: { ...existing?.env, ...env },
+			config: { ...existing?.config, ...config },
+			updatedAt: new Date().toISOString()
+		};
+		for (const [variable, value] of Object.entries(env)) {
+			if (!value) delete saved.env[variable];
+		}
+		return [...profiles.filter((p) => p !== existing), saved];
+	});
+	return saved!;
+}
+
+export async function deleteProfile(name: string): Promise<void> {
+	await updateJsonFile<Profile[]>(PROFILES_FILE, [], (profiles) => profiles.filter((p) => p.name !== name));
+}
+
+/**
+ * Profiles as written to an export file; all of them without a name
+ */
+export async function exportProfiles(name?: string): Promise<{ profiles: Omit<Profile, 'updatedAt'>[] }> {
+	const profiles = (await listProfiles()).filter((p) => !name || p.name === name);
+	if (name && profiles.length === 0) throw new PlaygroundError(`Profile not found: ${name}`, 404);
+	return { profiles: profiles.map(({ name, env, config }) => ({ name, env, config })) };
+}
+
+/**
+ * Reads an export file (or a single profile object) and replaces the profiles it contains.
+ * Nothing is written when one of them is invalid.
+ */
+export async function importProfiles(data: unknown): Promise<string[]> {
+	const entries = isRecord(data) && Array.isArray(data.profiles) ? data.profiles : [data];
+	const updatedAt = new Date().toISOString();
+	const imported = entries.map((entry): Profile => {
+		if (!isRecord(entry)) throw new PlaygroundError('Profile file must contain profile objects', 400);
+		assertProfileName(entry.name);
+		return {
+			name: entry.name,
+			env: parseEnv(entry.name, entry.env),
+			config: parseConfig(entry.name, entry.config),
+			updatedAt
+		};
+	});
+	if (imported.length === 0) throw new PlaygroundError('Profile file contains no profiles', 400);
+
+	const names = imported.map((p) => p.name);
+	await updateJsonFile<Profile[]>(PROFILES_FILE, [], (profiles) => [
+		...profiles.filter((p) => !names.includes(p.name)),
+		...imported
+	]);
+	return names;
+}
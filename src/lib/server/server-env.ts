@@ -0,0 +1,216 @@
+/**
+ * Server-side plugin environment
+ *
+ * Env values are read on the server instead of being typed into the browser: the process env,
+ * then `.env`, then, when a profile is picked, `.env.<profile>` (e.g. `.env.staging`) and the
+ * env values stored in the profile (see profiles), later sources winning. Plugins only receive
+ * the variables their manifest declares. The playground sees which of them are set, masked,
+ * and may send one-off overrides for a single run.
+ */
+
+import { existsSync } from 'node:fs';
+import { readdir } from 'node:fs/promises';
+import path from 'node:path';
+import type { PluginExport, ToolConfigValues } from '../../types';
+import { readEnvFile } from './env-file';
+import { PlaygroundError } from './errors';
+import { getPlugin, resolvePluginTools } from './plugin-loader';
+import {
+	assertProfileName,
+	getProfile,
+	getProfileConfig,
+	listProfiles,
+	PROFILE_NAME_PATTERN,
+	RESERVED_PROFILE_NAMES,
+	type Profile
+} from './profiles';
+
+// Folder holding .env and the per-profile files
+const ENV_DIR = path.resolve(process.env.PLAYGROUND_ENV_DIR || '.');
+
+export type EnvSource = 'process' | '.env' | `.env.${string}` | 'profile';
+
+export interface EnvVarStatus {
+	name: string;
+	required: boolean;
+	set: boolean;
+	/** Where the value comes from */
+	source?: EnvSource | 'override';
+	/** First and last characters only, e.g. `sk••••••3f` */
+	masked?: string;
+}
+
+export interface PluginEnvStatus {
+	profile: string | null;
+	variables: EnvVarStatus[];
+	/** Declared tools, with isAvailable(env) evaluated with the resolved env */
+	tools: { id: string; name: string; description: string; requiresPluginOAuth?: string; available: boolean }[];
+	/** Set when the plugin failed to list its tools with this env and config (see ToolDiscovery) */
+	discoveryError?: string;
+}
+
+export interface EnvProfile {
+	name: string;
+	/** A `.env.<name>` file exists */
+	envFile: boolean;
+	/** Stored in the playground, with the values below */
+	stored: boolean;
+	env: { name: string; masked: string }[];
+	config: Record<string, ToolConfigValues>;
+	updatedAt?: string;
+}
+
+export interface ResolveEnvOptions {
+	profile?: string | null;
+	/** One-off values from the request; empty values are ignored */
+	overrides?: Record<string, string>;
+}
+
+export interface EnvStatusOptions extends ResolveEnvOptions {
+	/** Plugin config the tools are listed with; defaults to the profile's */
+	config?: Record<string, unknown>;
+}
+
+export function maskSecret(value: string): string {
+	if (value.length < 12) return '•'.repeat(Math.max(value.length, 4));
+	return `${value.slice(0, 2)}${'•'.repeat(6)}${value.slice(-2)}`;
+}
+
+async function listEnvFileProfiles(): Promise<string[]> {
+	if (!existsSync(ENV_DIR)) return [];
+	return (await readdir(ENV_DIR))
+		.filter((file) => file.startsWith('.env.'))
+		.map((file) => file.slice('.env.'.length))
+		.filter((name) => PROFILE_NAME_PATTERN.test(name) && !RESERVED_PROFILE_NAMES.includes(name));
+}
+
+/**
+ * Stored profiles and profiles with a `.env.<profile>` file, sorted by name. Env values are masked.
+ */
+export async function listEnvProfiles(): Promise<EnvProfile[]> {
+	const stored = await listProfiles();
+	const envFiles = await listEnvFileProfiles();
+	const names = [...new Set([...stored.map((p) => p.name), ...envFiles])].sort();
+
+	return names.map((name) => {
+		const profile = stored.find((p) => p.name === name);
+		return {
+			name,
+			envFile: envFiles.includes(name),
+			stored: !!profile,
+			env: Object.entries(profile?.env ?? {}).map(([variable, value]) => ({ name: variable, masked: maskSecret(value) })),
+			config: profile?.config ?? {},
+			updatedAt: profile?.updatedAt
+		};
+	});
+}
+
+/**
+ * Env values with the source each one comes from
+ */
+async function loadServerEnv(profile?: string | null): Promise<Map<string, { value: string; source: EnvSource }>> {
+	const env = new Map<string, { value: string; source: EnvSource }>();
+	for (const [name, value] of Object.entries(process.env)) {
+		if (value !== undefined) env.set(name, { value, source: 'process' });
+	}
+
+	const files: EnvSource[] = ['.env'];
+	let stored: Profile | undefined;
+	if (profile) {
+		assertProfileName(profile);
+		stored = await getProfile(profile);
+		const hasEnvFile = existsSync(path.join(ENV_DIR, `.env.${profile}`));
+		if (!stored && !hasEnvFile) throw new PlaygroundError(`Profile not found: ${profile}`, 404);
+		if (hasEnvFile) files.push(`.env.${profile}`);
+	}
+
+	for (const file of files) {
+		const filePath = path.join(ENV_DIR, file);
+		if (!existsSync(filePath)) continue;
+		for (const [name, value] of Object.entries(await readEnvFile(filePath))) {
+			env.set(name, { value, source: file });
+		}
+	}
+	for (const [name, value] of Object.entries(stored?.env ?? {})) {
+		env.set(name, { value, source: 'profile' });
+	}
+	return env;
+}
+
+/**
+ * Env of the playground itself (e.g. FAKE_OAUTH_PORT): the process env, then `.env`
+ */
+export async function loadPlaygroundEnv(): Promise<Record<string, string>> {
+	return Object.fromEntries([...(await loadServerEnv())].map(([name, { value }]) => [name, value]));
+}
+
+async function requirePlugin(pluginId: string): Promise<PluginExport> {
+	const plugin = await getPlugin(pluginId);
+	if (!plugin) throw new PlaygroundError(`Plugin not found: ${pluginId}`, 404);
+	return plugin;
+}
+
+function declaredEnvVars(plugin: PluginExport): { name: string; required: boolean }[] {
+	return [
+		...(plugin.manifest.requiredEnvVars ?? []).map((name) => ({ name, required: true })),
+		...(plugin.manifest.optionalEnvVars ?? []).map((name) => ({ name, required: false }))
+	];
+}
+
+/**
+ * Declared variables of a plugin resolved from the server env, then the overrides
+ */
+async function collectPluginEnv(plugin: PluginExport, options: ResolveEnvOptions) {
+	const serverEnv = await loadServerEnv(options.profile);
+
+	const env: Record<string, string> = {};
+	const variables = declaredEnvVars(plugin).map(({ name, required }): EnvVarStatus => {
+		const override = options.overrides?.[name];
+		const entry = override ? { value: override, source: 'override' as const } : serverEnv.get(name);
+		if (!entry?.value) return { name, required, set: false };
+		env[name] = entry.value;
+		return { name, required, set: true, source: entry.source, masked: maskSecret(entry.value) };
+	});
+	return { env, variables };
+}
+
+/**
+ * The env a plugin runs with
+ */
+export async function resolvePluginEnv(pluginId: string, options: ResolveEnvOptions = {}): Promise<Record<string, string>> {
+	return (await collectPluginEnv(await requirePlugin(pluginId), options)).env;
+}
+
+/**
+ * Which declared variables are set (masked) and which tools are available, for the playground.
+ * A plugin listing its tools from its config and env re-lists them first.
+ */
+export async function getPluginEnvStatus(pluginId: string, options: EnvStatusOptions = {}): Promise<PluginEnvStatus> {
+	const loaded = await requirePlugin(pluginId);
+	const { env, variables } = await collectPluginEnv(loaded, options);
+
+	// A plugin that could not list its tools shows none, only the error
+	let plugin: PluginExport = { ...loaded, tools: [], manifest: { ...loaded.manifest, tools: [] } };
+	let discoveryError: string | undefined;
+	try {
+		plugin = await resolvePluginTools(loaded, options.config ?? (await getProfileConfig(options.profile, pluginId)), env);
+	} catch (error) {
+		discoveryError = error instanceof Error ? error.message : String(error);
+	}
+
+	return {
+		profile: options.profile ?? null,
+		variables,
+		tools: plugin.manifest.tools.map((declaration) => {
+			const tool = plugin.tools.find((t) => t.id === declaration.id);
+			return {
+				id: declaration.id,
+				name: declaration.name,
+				description: declaration.description,
+				requiresPluginOAuth: declaration.requiresPluginOAuth,
+				available: !tool?.isAvailable || tool.isAvailable(env)
+			};
+		}),
+		...(discoveryError ? { discoveryError } : {})
+	};
+}
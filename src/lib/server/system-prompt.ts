@@ -0,0 +1,121 @@
+/**
+ * System prompt composition
+ *
+ * Builds the tool section of the system prompt from the selected plugins'
+ * systemPromptInstructions, the way the core does: one instruction per tool, in the
+ * requested locale, falling back to the plugin's default locale.
+ */
+
+import type { Locale, PluginExport, PluginToolDeclaration } from '../../types';
+import { PlaygroundError } from './errors';
+import { estimateTokens } from './execution-record';
+import { DEFAULT_LOCALE, LOCALES } from './plugin-context';
+import { getPlugin } from './plugin-loader';
+
+export interface SystemPromptSection {
+	pluginId: string;
+	toolId: string;
+	/** Locale the instruction was taken from; null when it is a plain string */
+	locale: string | null;
+	/** The requested locale had no translation and another one was used */
+	fallback: boolean;
+	/** Playground locales the per-locale map has no entry for */
+	missingLocales: Locale[];
+	text: string;
+	tokens: number;
+}
+
+export interface ComposedSystemPrompt {
+	locale: Locale;
+	prompt: string;
+	sections: SystemPromptSection[];
+	/** Estimated tokens of the whole prompt */
+	tokens: number;
+}
+
+export interface SystemPromptPlugin {
+	plugin: PluginExport;
+	/** Tools to include (default: all of the plugin's tools) */
+	toolIds?: string[];
+}
+
+/**
+ * Picks a tool's instruction for a locale: requested locale, then the plugin's
+ * default locale, then the playground default, then whichever comes first
+ */
+export function resolveInstructions(
+	plugin: PluginExport,
+	tool: PluginToolDeclaration,
+	locale: Locale
+): { locale: string | null; text: string } | null {
+	const instructions = tool.systemPromptInstructions;
+	if (typeof instructions === 'string') return { locale: null, text: instructions };
+	if (!instructions || typeof instructions !== 'object') return null;
+
+	const candidates = [locale, plugin.manifest.i18n?.defaultLocale, DEFAULT_LOCALE, ...Object.keys(instructions)];
+	for (const candidate of candidates) {
+		if (candidate && instructions[candidate]) return { locale: candidate, text: instructions[candidate] };
+	}
+	return null;
+}
+
+function getMissingLocales(tool: PluginToolDeclaration): Locale[] {
+	const instructions = tool.systemPromptInstructions;
+	if (!instructions || typeof instructions !== 'object') return [];
+	return LOCALES.filter((locale) => !instructions[locale]);
+}
+
+/**
+ * Composes the system prompt: the optional base prompt, then the tool instructions
+ * grouped by plugin
+ */
+export function composeSystemPrompt(
+	plugins: SystemPromptPlugin[],
+	locale: Locale,
+	basePrompt?: string
+): ComposedSystemPrompt {
+	const sections: SystemPromptSection[] = [];
+	const blocks: string[] = basePrompt?.trim() ? [basePrompt.trim()] : [];
+
+	for (const { plugin, toolIds } of plugins) {
+		const lines: string[] = [];
+		for (const tool of plugin.manifest.tools) {
+			if (toolIds && !toolIds.includes(tool.id)) continue;
+			const resolved = resolveInstructions(plugin, tool, locale);
+			if (!resolved) continue;
+
+			const text = resolved.text.trim();
+			sections.push({
+				pluginId: plugin.manifest.id,
+				toolId: tool.id,
+				locale: resolved.locale,
+				fallback: resolved.locale !== null && resolved.locale !== locale,
+				missingLocales: getMissingLocales(tool),
+				text,
+				tokens: estimateTokens(text)
+			});
+			lines.push(text);
+		}
+		if (lines.length > 0) blocks.push(lines.join('\n'));
+	}
+
+	const prompt = blocks.join('\n\n');
+	return { locale, prompt, sections, tokens: estimateTokens(prompt) };
+}
+
+/**
+ * Composes the prompt for plugins given by id, e.g. from a playground request
+ */
+export async function previewSystemPrompt(
+	selection: { pluginId: string; toolIds?: string[] }[],
+	locale: Locale,
+	basePrompt?: string
+): Promise<ComposedSystemPrompt> {
+	const plugins: SystemPromptPlugin[] = [];
+	for (const { pluginId, toolIds } of selection) {
+		const plugin = await getPlugin(pluginId);
+		if (!plugin) throw new PlaygroundError(`Plugin not found: ${pluginId}`, 404);
+		plugins.push({ plugin, toolIds });
+	}
+	return composeSystemPrompt(plugins, locale, basePrompt);
+}
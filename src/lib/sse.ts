@@ -0,0 +1,32 @@
+/**
+ * Reads a Server-Sent Events response body (EventSource only supports GET)
+ */
+export async function readServerSentEvents(
+	response: Response,
+	onEvent: (event: string, data: unknown) => void
+): Promise<void> {
+	if (!response.body) return;
+
+	const reader = response.body.pipeThrough(new TextDecoderStream()).getReader();
+	let buffer = '';
+
+	for (;;) {
+		const { value, done } = await reader.read();
+		if (done) break;
+		buffer += value;
+
+		let boundary: number;
+		while ((boundary = buffer.indexOf('\n\n')) !== -1) {
+			const frame = buffer.slice(0, boundary);
+			buffer = buffer.slice(boundary + 2);
+
+			let event = 'message';
+			const data: string[] = [];
+			for (const line of frame.split('\n')) {
+				if (line.startsWith('event:')) event = line.slice(6).trim();
+				else if (line.startsWith('data:')) data.push(line.slice(5).trimStart());
+			}
+			if (data.length > 0) onEvent(event, JSON.parse(data.join('\n')));
+		}
+	}
+}
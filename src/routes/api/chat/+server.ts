@@ -0,0 +1,16 @@
+import { json } from '@sveltejs/kit';
+import type { RequestHandler } from './$types';
+import { parseChatRequest, runChatSimulation } from '$lib/server/chat-simulation';
+import { describeExecuteError, readJsonBody } from '$lib/server/execute-request';
+
+export const POST: RequestHandler = async ({ request }) => {
+	try {
+		const options = parseChatRequest(await readJsonBody(request));
+		const result = await runChatSimulation(options);
+
+		return json({ success: true, ...result });
+	} catch (error) {
+		const { status, body } = describeExecuteError(error);
+		return json(body, { status });
+	}
+};
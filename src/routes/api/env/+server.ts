@@ -0,0 +1,36 @@
+import { json } from '@sveltejs/kit';
+import type { RequestHandler } from './$types';
+import { getPluginEnvStatus } from '$lib/server/server-env';
+import {
+	describeExecuteError,
+	isRecord,
+	optionalRecord,
+	optionalString,
+	parseEnvOverrides,
+	readJsonBody
+} from '$lib/server/execute-request';
+
+/**
+ * Body: { pluginId, profile?, env?, config? } where env holds the overrides typed in the playground
+ * and config the plugin config of the form. Answers with the declared variables (values masked) and
+ * the tools, listed with that env and config, with the availability of each.
+ */
+export const POST: RequestHandler = async ({ request }) => {
+	try {
+		const body = await readJsonBody(request);
+		if (!isRecord(body)) return json({ success: false, error: 'Request body must be a JSON object' }, { status: 400 });
+		const pluginId = optionalString(body.pluginId, 'pluginId');
+		if (!pluginId) {
+			return json({ success: false, error: 'pluginId is required' }, { status: 400 });
+		}
+		const status = await getPluginEnvStatus(pluginId, {
+			profile: optionalString(body.profile, 'profile'),
+			overrides: parseEnvOverrides(body.env),
+			config: body.config === undefined || body.config === null ? undefined : optionalRecord(body.config, 'config')
+		});
+		return json({ success: true, ...status });
+	} catch (error) {
+		const { status, body } = describeExecuteError(error);
+		return json(body, { status });
+	}
+};
@@ -1,33 +1,16 @@
 import { json } from '@sveltejs/kit';
 import type { RequestHandler } from './$types';
-import { executeTool } from '$lib/server/plugin-loader';
+import { executeToolWithHistory } from '$lib/server/execution-history';
+import { describeExecuteError, parseExecuteRequest, readJsonBody } from '$lib/server/execute-request';
 
 export const POST: RequestHandler = async ({ request }) => {
 	try {
-		const body = await request.json();
-		const { pluginId, toolId, params, env, config } = body;
+		const options = await parseExecuteRequest(await readJsonBody(request));
+		const { result, execution, historyId } = await executeToolWithHistory(options);
 
-		if (!pluginId || !toolId) {
-			return json({ error: 'pluginId and toolId are required' }, { status: 400 });
-		}
-
-		const result = await executeTool({
-			pluginId,
-			toolId,
-			params: params || {},
-			env: env || {},
-			config: config || {}
-		});
-
-		return json({ success: true, result });
+		return json({ success: true, result, execution, historyId });
 	} catch (error) {
-		console.error('Error executing tool:', error);
-		return json(
-			{
-				success: false,
-				error: error instanceof Error ? error.message : 'Unknown error'
-			},
-			{ status: 500 }
-		);
+		const { status, body } = describeExecuteError(error);
+		return json(body, { status });
 	}
 };
@@ -0,0 +1,71 @@
+import { json } from '@sveltejs/kit';
+import type { RequestHandler } from './$types';
+import { executeToolWithHistory } from '$lib/server/execution-history';
+import type { ExecuteToolOptions } from '$lib/server/plugin-loader';
+import { describeExecuteError, parseExecuteRequest, readJsonBody } from '$lib/server/execute-request';
+
+/**
+ * Same body as /api/execute, answered as Server-Sent Events:
+ *   event: log       { level, message, data, timestamp } for each PluginLogger call
+ *   event: progress  { stage, message } for each step of the execution pipeline
+ *   event: result    { success: true, result, execution, historyId }
+ *   event: error     { success: false, error, status, ...details } (details include `execution`
+ *                    when the tool itself failed)
+ */
+export const POST: RequestHandler = async ({ request }) => {
+	let options: ExecuteToolOptions;
+	try {
+		options = await parseExecuteRequest(await readJsonBody(request));
+	} catch (error) {
+		const { status, body } = describeExecuteError(error);
+		return json(body, { status });
+	}
+
+	const encoder = new TextEncoder();
+	let closed = false;
+
+	const stream = new ReadableStream<Uint8Array>({
+		async start(controller) {
+			const send = (event: string, data: unknown) => {
+				if (closed) return;
+				let payload: string;
+				try {
+					payload = JSON.stringify(data);
+				} catch {
+					// Circular or otherwise unserializable log data
+					payload = JSON.stringify({ ...(data as object), data: String((data as { data?: unknown }).data) });
+				}
+				controller.enqueue(encoder.encode(`event: ${event}\ndata: ${payload}\n\n`));
+			};
+
+			try {
+				const { result, execution, historyId } = await executeToolWithHistory({
+					...options,
+					onLog: (entry) => send('log', entry),
+					onProgress: (progress) => send('progress', progress)
+				});
+				send('result', { success: true, result, execution, historyId });
+			} catch (error) {
+				const { status, body } = describeExecuteError(error);
+				send('error', { ...body, status });
+			} finally {
+				if (!closed) {
+					closed = true;
+					controller.close();
+				}
+			}
+		},
+		cancel() {
+			// The playground went away; let the tool finish but stop writing
+			closed = true;
+		}
+	});
+
+	return new Response(stream, {
+		headers: {
+			'Content-Type': 'text/event-stream',
+			'Cache-Control': 'no-cache',
+			Connection: 'keep-alive'
+		}
+	});
+};
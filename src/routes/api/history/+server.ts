@@ -0,0 +1,30 @@
+import { json } from '@sveltejs/kit';
+import type { RequestHandler } from './$types';
+import { deleteHistory, listHistory } from '$lib/server/execution-history';
+
+export const GET: RequestHandler = async ({ url }) => {
+	const limit = Number(url.searchParams.get('limit')) || undefined;
+	const entries = await listHistory({
+		pluginId: url.searchParams.get('pluginId') || undefined,
+		toolId: url.searchParams.get('toolId') || undefined,
+		limit
+	});
+	return json({ entries });
+};
+
+/**
+ * Deletes one entry (`id`), a plugin's entries (`pluginId`) or, with `all=1` only, the whole history
+ */
+export const DELETE: RequestHandler = async ({ url }) => {
+	const filter = {
+		id: url.searchParams.get('id') || undefined,
+		pluginId: url.searchParams.get('pluginId') || undefined,
+		all: url.searchParams.get('all') === '1'
+	};
+	if (!filter.id && !filter.pluginId && !filter.all) {
+		return json({ success: false, error: 'id, pluginId or all=1 is required' }, { status: 400 });
+	}
+
+	await deleteHistory(filter);
+	return json({ success: true });
+};
@@ -0,0 +1,30 @@
+import { json } from '@sveltejs/kit';
+import type { RequestHandler } from './$types';
+import { rerunHistoryEntry } from '$lib/server/execution-history';
+import {
+	describeExecuteError,
+	isRecord,
+	optionalString,
+	parseEnvOverrides,
+	readJsonBody
+} from '$lib/server/execute-request';
+
+export const POST: RequestHandler = async ({ request }) => {
+	try {
+		const body = await readJsonBody(request);
+		if (!isRecord(body)) return json({ success: false, error: 'Request body must be a JSON object' }, { status: 400 });
+		const id = optionalString(body.id, 'id');
+		if (!id) {
+			return json({ success: false, error: 'id is required' }, { status: 400 });
+		}
+
+		const { result, execution, historyId } = await rerunHistoryEntry(id, {
+			profile: optionalString(body.profile, 'profile'),
+			overrides: parseEnvOverrides(body.env)
+		});
+		return json({ success: true, result, execution, historyId });
+	} catch (error) {
+		const { status, body } = describeExecuteError(error);
+		return json(body, { status });
+	}
+};
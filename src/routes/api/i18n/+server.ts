@@ -0,0 +1,11 @@
+import { json } from '@sveltejs/kit';
+import type { RequestHandler } from './$types';
+import { getI18nCoverage } from '$lib/server/i18n-coverage';
+import { LOCALES } from '$lib/server/plugin-context';
+
+/**
+ * Translation coverage of each plugin's messages and systemPromptInstructions
+ */
+export const GET: RequestHandler = async () => {
+	return json({ locales: LOCALES, plugins: await getI18nCoverage() });
+};
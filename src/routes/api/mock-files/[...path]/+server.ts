@@ -0,0 +1,47 @@
+import { error, json } from '@sveltejs/kit';
+import type { RequestHandler } from './$types';
+import { deleteStoredFile, readStoredFile } from '$lib/server/plugin-storage';
+
+/**
+ * Splits `mock-storage/<pluginId>/<fileName>` into its parts
+ */
+function parseStoragePath(path: string): { pluginId: string; fileName: string } {
+	const [root, pluginId, ...rest] = path.split('/');
+	if (root !== 'mock-storage' || !pluginId || rest.length === 0) {
+		error(404, 'Not found');
+	}
+	return { pluginId, fileName: rest.join('/') };
+}
+
+export const GET: RequestHandler = async ({ params }) => {
+	const { pluginId, fileName } = parseStoragePath(params.path);
+
+	let file;
+	try {
+		file = await readStoredFile(pluginId, fileName);
+	} catch {
+		error(400, 'Invalid storage path');
+	}
+	if (!file) {
+		error(404, 'Not found');
+	}
+
+	return new Response(new Uint8Array(file.buffer), {
+		headers: {
+			'Content-Type': file.contentType,
+			'Content-Length': String(file.buffer.length),
+			'Cache-Control': 'no-cache'
+		}
+	});
+};
+
+export const DELETE: RequestHandler = async ({ params }) => {
+	const { pluginId, fileName } = parseStoragePath(params.path);
+
+	try {
+		await deleteStoredFile(pluginId, fileName);
+	} catch {
+		error(400, 'Invalid storage path');
+	}
+	return json({ success: true });
+};
@@ -0,0 +1,47 @@
+import type { RequestHandler } from './$types';
+import { completeOAuth } from '$lib/server/plugin-oauth';
+
+function escapeHtml(text: string): string {
+	return text.replace(/[&<>"']/g, (c) => `&#${c.charCodeAt(0)};`);
+}
+
+/**
+ * Tells the playground window (which opened the flow in a popup) how it ended, then closes
+ */
+function renderResult(status: number, message: { success: boolean; pluginId?: string; error?: string }): Response {
+	const text = message.success ? 'Account connected. You can close this window.' : `OAuth failed: ${message.error}`;
+	const html = `<!doctype html>
+<html>
+	<body style="font-family: sans-serif; padding: 2rem">
+		<p>${escapeHtml(text)}</p>
+		<script>
+			if (window.opener) {
+				window.opener.postMessage(${JSON.stringify({ type: 'plugin-oauth', ...message }).replace(/</g, '\\u003c')}, window.location.origin);
+				window.close();
+			}
+		</script>
+	</body>
+</html>`;
+	return new Response(html, { status, headers: { 'Content-Type': 'text/html; charset=utf-8' } });
+}
+
+export const GET: RequestHandler = async ({ url }) => {
+	const code = url.searchParams.get('code');
+	const state = url.searchParams.get('state');
+	const oauthError = url.searchParams.get('error');
+
+	if (oauthError) {
+		return renderResult(400, { success: false, error: url.searchParams.get('error_description') || oauthError });
+	}
+	if (!code || !state) {
+		return renderResult(400, { success: false, error: 'code and state are required' });
+	}
+
+	try {
+		const { pluginId } = await completeOAuth(code, state);
+		return renderResult(200, { success: true, pluginId });
+	} catch (error) {
+		console.error('Error completing OAuth flow:', error);
+		return renderResult(400, { success: false, error: error instanceof Error ? error.message : 'Unknown error' });
+	}
+};
@@ -0,0 +1,50 @@
+import { json } from '@sveltejs/kit';
+import type { RequestHandler } from './$types';
+import type { ToolConfigValues } from '../../../../types';
+import { startOAuth } from '$lib/server/plugin-oauth';
+import { DEFAULT_USER_ID } from '$lib/server/plugin-context';
+import { PlaygroundError } from '$lib/server/errors';
+import {
+	isRecord,
+	optionalRecord,
+	optionalString,
+	parseEnvOverrides,
+	readJsonBody
+} from '$lib/server/execute-request';
+import { getProfileConfig } from '$lib/server/profiles';
+import { resolvePluginEnv } from '$lib/server/server-env';
+
+export const POST: RequestHandler = async ({ request, url }) => {
+	try {
+		const body = await readJsonBody(request);
+		if (!isRecord(body)) throw new PlaygroundError('Request body must be a JSON object', 400);
+		const pluginId = optionalString(body.pluginId, 'pluginId');
+
+		if (!pluginId) {
+			return json({ error: 'pluginId is required' }, { status: 400 });
+		}
+		if (body.userId !== undefined && body.userId !== null && typeof body.userId !== 'string') {
+			throw new PlaygroundError('userId must be a string or null', 400);
+		}
+		// Unset means DEFAULT_USER_ID, empty means no user, as for /api/oauth/tokens
+		const userId = body.userId === undefined ? DEFAULT_USER_ID : body.userId?.trim() || null;
+		const profile = optionalString(body.profile, 'profile');
+		const config = optionalRecord(body.config, 'config') as ToolConfigValues;
+
+		const authUrl = await startOAuth({
+			pluginId,
+			userId,
+			redirectUri: `${url.origin}/api/oauth/callback`,
+			config: { ...(await getProfileConfig(profile, pluginId)), ...config },
+			env: await resolvePluginEnv(pluginId, { profile, overrides: parseEnvOverrides(body.env) })
+		});
+
+		return json({ authUrl });
+	} catch (error) {
+		if (error instanceof PlaygroundError) {
+			return json({ error: error.message }, { status: error.status });
+		}
+		console.error('Error starting OAuth flow:', error);
+		return json({ error: error instanceof Error ? error.message : 'Unknown error' }, { status: 500 });
+	}
+};
@@ -0,0 +1,37 @@
+import { json } from '@sveltejs/kit';
+import type { RequestHandler } from './$types';
+import { deleteToken, getTokenStatus } from '$lib/server/plugin-tokens';
+import { DEFAULT_USER_ID } from '$lib/server/plugin-context';
+
+/**
+ * Reads the userId query parameter: unset means DEFAULT_USER_ID, empty means no user (null),
+ * the same user a run with `userId: null` in its context looks tokens up for
+ */
+function readUserId(url: URL): string | null {
+	const userId = url.searchParams.get('userId');
+	return userId === null ? DEFAULT_USER_ID : userId.trim() || null;
+}
+
+export const GET: RequestHandler = async ({ url }) => {
+	const pluginId = url.searchParams.get('pluginId');
+	const userId = readUserId(url);
+
+	if (!pluginId) {
+		return json({ error: 'pluginId is required' }, { status: 400 });
+	}
+
+	const status = await getTokenStatus(userId, pluginId);
+	return json(status);
+};
+
+export const DELETE: RequestHandler = async ({ url }) => {
+	const pluginId = url.searchParams.get('pluginId');
+	const userId = readUserId(url);
+
+	if (!pluginId) {
+		return json({ error: 'pluginId is required' }, { status: 400 });
+	}
+
+	await deleteToken(userId, pluginId);
+	return json({ success: true });
+};
@@ -1,6 +1,17 @@
 import { json } from '@sveltejs/kit';
 import type { RequestHandler } from './$types';
-import { getPlugins, getToolInputSchema } from '$lib/server/plugin-loader';
+import type { ToolConfigValues } from '../../../types';
+import { getPlugins, getPluginLoadErrors, getToolInputSchema, describeTool } from '$lib/server/plugin-loader';
+import {
+	describeExecuteError,
+	isRecord,
+	optionalRecord,
+	optionalString,
+	parseEnvOverrides,
+	readJsonBody
+} from '$lib/server/execute-request';
+import { getProfileConfig } from '$lib/server/profiles';
+import { resolvePluginEnv } from '$lib/server/server-env';
 
 export const GET: RequestHandler = async ({ url }) => {
 	const pluginId = url.searchParams.get('pluginId');
@@ -8,11 +19,40 @@ export const GET: RequestHandler = async ({ url }) => {
 
 	// If requesting schema for a specific tool
 	if (pluginId && toolId) {
-		const schema = getToolInputSchema(pluginId, toolId);
+		const schema = await getToolInputSchema(pluginId, toolId);
 		return json({ schema });
 	}
 
 	// Return all plugins
-	const plugins = getPlugins();
-	return json({ plugins });
+	const plugins = await getPlugins();
+	const loadErrors = await getPluginLoadErrors();
+	return json({ plugins, loadErrors });
+};
+
+/**
+ * Body: { pluginId, toolId, profile?, env?, config? }. Answers with the tool's input schema, the
+ * tool being looked up with that env and config, as the tools of /api/env are listed.
+ */
+export const POST: RequestHandler = async ({ request }) => {
+	try {
+		const body = await readJsonBody(request);
+		if (!isRecord(body)) return json({ success: false, error: 'Request body must be a JSON object' }, { status: 400 });
+		const pluginId = optionalString(body.pluginId, 'pluginId');
+		const toolId = optionalString(body.toolId, 'toolId');
+		if (!pluginId || !toolId) {
+			return json({ success: false, error: 'pluginId and toolId are required' }, { status: 400 });
+		}
+		const profile = optionalString(body.profile, 'profile');
+		const overrides = parseEnvOverrides(body.env);
+		const config = optionalRecord(body.config, 'config') as ToolConfigValues;
+
+		const description = await describeTool(pluginId, toolId, {
+			config: { ...(await getProfileConfig(profile, pluginId)), ...config },
+			env: await resolvePluginEnv(pluginId, { profile, overrides })
+		});
+		return json({ schema: description?.inputSchema ?? null });
+	} catch (error) {
+		const { status, body } = describeExecuteError(error);
+		return json(body, { status });
+	}
 };
@@ -0,0 +1,63 @@
+import { json } from '@sveltejs/kit';
+import type { RequestHandler } from './$types';
+import { deletePreset, listPresets, savePreset } from '$lib/server/presets';
+import type { ToolConfigValues } from '../../../types';
+import {
+	describeExecuteError,
+	isRecord,
+	optionalRecord,
+	optionalString,
+	readJsonBody
+} from '$lib/server/execute-request';
+
+export const GET: RequestHandler = async ({ url }) => {
+	try {
+		const pluginId = url.searchParams.get('pluginId');
+		const toolId = url.searchParams.get('toolId');
+		if (!pluginId || !toolId) {
+			return json({ success: false, error: 'pluginId and toolId are required' }, { status: 400 });
+		}
+		return json({ success: true, presets: await listPresets(pluginId, toolId) });
+	} catch (error) {
+		const { status, body } = describeExecuteError(error);
+		return json(body, { status });
+	}
+};
+
+export const POST: RequestHandler = async ({ request }) => {
+	try {
+		const body = await readJsonBody(request);
+		if (!isRecord(body)) return json({ success: false, error: 'Request body must be a JSON object' }, { status: 400 });
+		const pluginId = optionalString(body.pluginId, 'pluginId');
+		const toolId = optionalString(body.toolId, 'toolId');
+		if (!pluginId || !toolId) {
+			return json({ success: false, error: 'pluginId and toolId are required' }, { status: 400 });
+		}
+		const preset = await savePreset(pluginId, toolId, {
+			name: optionalString(body.name, 'name') ?? '',
+			description: optionalString(body.description, 'description'),
+			params: optionalRecord(body.params, 'params'),
+			config: optionalRecord(body.config, 'config') as ToolConfigValues
+		});
+		return json({ success: true, preset });
+	} catch (error) {
+		const { status, body } = describeExecuteError(error);
+		return json(body, { status });
+	}
+};
+
+export const DELETE: RequestHandler = async ({ url }) => {
+	try {
+		const pluginId = url.searchParams.get('pluginId');
+		const toolId = url.searchParams.get('toolId');
+		const slug = url.searchParams.get('slug');
+		if (!pluginId || !toolId || !slug) {
+			return json({ success: false, error: 'pluginId, toolId and slug are required' }, { status: 400 });
+		}
+		await deletePreset(pluginId, toolId, slug);
+		return json({ success: true });
+	} catch (error) {
+		const { status, body } = describeExecuteError(error);
+		return json(body, { status });
+	}
+};
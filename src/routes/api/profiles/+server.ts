@@ -0,0 +1,49 @@
+import { json } from '@sveltejs/kit';
+import type { RequestHandler } from './$types';
+import { deleteProfile, saveProfile } from '$lib/server/profiles';
+import { listEnvProfiles } from '$lib/server/server-env';
+import type { ToolConfigValues } from '../../../types';
+import {
+	describeExecuteError,
+	isRecord,
+	optionalRecord,
+	optionalString,
+	parseEnvOverrides,
+	readJsonBody
+} from '$lib/server/execute-request';
+
+/**
+ * Stored profiles and `.env.<name>` files; env values are masked
+ */
+export const GET: RequestHandler = async () => {
+	return json({ profiles: await listEnvProfiles() });
+};
+
+/**
+ * Body: { name, env?, config? } where config maps plugin ids to config values. Creates the
+ * profile or merges the changes into it; an empty env value removes the variable.
+ */
+export const POST: RequestHandler = async ({ request }) => {
+	try {
+		const body = await readJsonBody(request);
+		if (!isRecord(body)) return json({ success: false, error: 'Request body must be a JSON object' }, { status: 400 });
+		await saveProfile({
+			name: optionalString(body.name, 'name') ?? '',
+			env: parseEnvOverrides(body.env),
+			config: optionalRecord(body.config, 'config') as Record<string, ToolConfigValues>
+		});
+		return json({ success: true, profiles: await listEnvProfiles() });
+	} catch (error) {
+		const { status, body } = describeExecuteError(error);
+		return json(body, { status });
+	}
+};
+
+export const DELETE: RequestHandler = async ({ url }) => {
+	const name = url.searchParams.get('name');
+	if (!name) {
+		return json({ success: false, error: 'name is required' }, { status: 400 });
+	}
+	await deleteProfile(name);
+	return json({ success: true, profiles: await listEnvProfiles() });
+};
@@ -0,0 +1,23 @@
+import { json } from '@sveltejs/kit';
+import type { RequestHandler } from './$types';
+import { exportProfiles } from '$lib/server/profiles';
+import { describeExecuteError } from '$lib/server/execute-request';
+
+/**
+ * Downloads one profile (?name=) or all of them, env values in clear
+ */
+export const GET: RequestHandler = async ({ url }) => {
+	try {
+		const name = url.searchParams.get('name') || undefined;
+		const file = name ? `playground-profile-${name}.json` : 'playground-profiles.json';
+		return new Response(JSON.stringify(await exportProfiles(name), null, 2) + '\n', {
+			headers: {
+				'Content-Type': 'application/json',
+				'Content-Disposition': `attachment; filename="${file}"`
+			}
+		});
+	} catch (error) {
+		const { status, body } = describeExecuteError(error);
+		return json(body, { status });
+	}
+};
@@ -0,0 +1,24 @@
+import { json } from '@sveltejs/kit';
+import type { RequestHandler } from './$types';
+import { importProfiles } from '$lib/server/profiles';
+import { listEnvProfiles } from '$lib/server/server-env';
+import { describeExecuteError } from '$lib/server/execute-request';
+
+/**
+ * Body: the content of an export file. Profiles with the same names are replaced.
+ */
+export const POST: RequestHandler = async ({ request }) => {
+	try {
+		let data: unknown;
+		try {
+			data = await request.json();
+		} catch {
+			return json({ success: false, error: 'Profile file is not valid JSON' }, { status: 400 });
+		}
+		const imported = await importProfiles(data);
+		return json({ success: true, imported, profiles: await listEnvProfiles() });
+	} catch (error) {
+		const { status, body } = describeExecuteError(error);
+		return json(body, { status });
+	}
+};
@@ -0,0 +1,13 @@
+import { json } from '@sveltejs/kit';
+import type { RequestHandler } from './$types';
+import { listStoredFiles } from '$lib/server/plugin-storage';
+
+export const GET: RequestHandler = async ({ url }) => {
+	const pluginId = url.searchParams.get('pluginId') || undefined;
+	try {
+		const files = await listStoredFiles(pluginId);
+		return json({ files });
+	} catch (error) {
+		return json({ error: error instanceof Error ? error.message : 'Unknown error' }, { status: 400 });
+	}
+};
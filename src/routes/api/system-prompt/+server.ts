@@ -0,0 +1,37 @@
+import { json } from '@sveltejs/kit';
+import type { RequestHandler } from './$types';
+import type { Locale } from '../../../types';
+import { PlaygroundError } from '$lib/server/errors';
+import { describeExecuteError, isRecord, optionalString, readJsonBody } from '$lib/server/execute-request';
+import { LOCALES } from '$lib/server/plugin-context';
+import { previewSystemPrompt } from '$lib/server/system-prompt';
+
+function isPluginSelection(value: unknown): value is { pluginId: string; toolIds?: string[] } {
+	return (
+		isRecord(value) &&
+		typeof value.pluginId === 'string' &&
+		(value.toolIds === undefined ||
+			(Array.isArray(value.toolIds) && value.toolIds.every((id) => typeof id === 'string')))
+	);
+}
+
+export const POST: RequestHandler = async ({ request }) => {
+	try {
+		const body = await readJsonBody(request);
+		if (!isRecord(body)) throw new PlaygroundError('Request body must be a JSON object', 400);
+		const { plugins, locale } = body;
+
+		if (!Array.isArray(plugins) || !plugins.every(isPluginSelection)) {
+			throw new PlaygroundError('plugins must be an array of { pluginId, toolIds }', 400);
+		}
+		if (!LOCALES.includes(locale as Locale)) {
+			throw new PlaygroundError(`locale must be one of: ${LOCALES.join(', ')}`, 400);
+		}
+		const basePrompt = optionalString(body.basePrompt, 'basePrompt');
+
+		return json({ success: true, ...(await previewSystemPrompt(plugins, locale as Locale, basePrompt)) });
+	} catch (error) {
+		const { status, body } = describeExecuteError(error);
+		return json(body, { status });
+	}
+};
@@ -0,0 +1,47 @@
+/**
+ * Result of the search plugins (bing, exa)
+ *
+ * The shape the core renders search answers and their citations from, as a type and as the
+ * JSON Schema the search tools declare as their outputSchema.
+ */
+
+import type { Source } from './types';
+
+export interface SearchResult {
+	message: string;
+	sources?: Source[];
+	content?: string;
+}
+
+/** JSON Schema of SearchResult, checked against every result by the playground */
+export const SEARCH_RESULT_SCHEMA = {
+	type: 'object',
+	required: ['message'],
+	properties: {
+		message: { type: 'string' },
+		content: { type: 'string' },
+		sources: {
+			type: 'array',
+			items: {
+				type: 'object',
+				required: ['id', 'content', 'metadata', 'similarity'],
+				properties: {
+					id: { type: 'string', minLength: 1 },
+					content: { type: 'string' },
+					metadata: {
+						type: 'object',
+						required: ['source', 'type'],
+						properties: {
+							source: { type: 'string' },
+							type: { type: 'string' },
+							url: { type: 'string' },
+							domain: { type: 'string' },
+							age: { type: 'string' }
+						}
+					},
+					similarity: { type: 'number', minimum: 0, maximum: 1 }
+				}
+			}
+		}
+	}
+};
@@ -140,6 +140,8 @@ export interface PluginToolDeclaration {
 	/** Plugin-managed OAuth: value is the pluginId owning the OAuth flow. */
 	requiresPluginOAuth?: string;
 	systemPromptInstructions: string | { [locale: string]: string };
+	/** JSON Schema of the tool's result, checked by the playground after every run */
+	outputSchema?: object;
 }
 
 /**
@@ -174,6 +176,8 @@ export interface PluginToolDefinition {
 	id: string;
 	createTool: (context: PluginContext) => AnyTool;
 	isAvailable?: (env: Record<string, string | undefined>) => boolean;
+	/** JSON Schema of the tool's result; takes precedence over the manifest's outputSchema */
+	outputSchema?: object;
 }
 
 /**